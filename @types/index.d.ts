@@ -1,4 +1,5 @@
-import {SessionOptions, ClientSession, TransactionOptions} from 'mongodb';
+import {SessionOptions, ClientSession, TransactionOptions, ObjectId, IndexDescription, MongoClient, Document} from 'mongodb';
+import {Mongo} from 'meteor/mongo';
 
 declare module 'meteor/bhunjadi:mongo-transactions' {
     interface RunInTransactionOptions {
@@ -6,7 +7,8 @@ declare module 'meteor/bhunjadi:mongo-transactions' {
         transactionOptions?: TransactionOptions;
         // when true, using session.withTransaction which retries transaction callback or commit operation (whichever failed)
         // see: https://mongodb.github.io/node-mongodb-native/3.6/api/ClientSession.html#withTransaction
-        retry?: boolean;
+        // with RetryPolicy object, retries are done by the package according to the policy
+        retry?: boolean | RetryPolicy;
 
         // Should runInTransaction function wait for all async callbacks, for example Meteor.insert({}, callback);
         // Might be useful if cache is used.
@@ -15,9 +17,156 @@ declare module 'meteor/bhunjadi:mongo-transactions' {
         // True value only makes sense if waitForCallbacks is true.
         // If there are any errors, runInTransaction will throw an error.
         catchCallbackErrors?: boolean;
+
+        // What to do when runInTransaction is called while another transaction is already running.
+        // Without it, the call throws.
+        propagation?: Propagation;
+
+        // records every collection operation of the transaction, see getTransactionJournal
+        journal?: boolean | JournalOptions;
+
+        // driver whose client runs the transaction, for collections created with a custom _driver
+        driver?: TransactionDriver;
+
+        // collection operations are rejected and the transaction aborts with TransactionTimeoutError after this time
+        maxDurationMs?: number;
+        // transactions running longer are logged with the call site of runInTransaction
+        slowTransactionMs?: number;
+
+        // records before and after images of written documents, see getChangeSet
+        changeSet?: boolean;
+
+        // Meteor.defer and Meteor.setTimeout called in the transaction are scheduled after commit, dropped on abort
+        deferUntilCommit?: boolean;
+    }
+
+    // MongoInternals.RemoteCollectionDriver
+    type TransactionDriver = {
+        mongo: {client: MongoClient};
+    };
+
+    interface DocumentChange {
+        collection: string;
+        method: string;
+        documentId: unknown;
+        // null for inserted (or upserted) documents
+        before: Document | null;
+        // null for removed documents
+        after: Document | null;
+    }
+
+    type ChangeSet = DocumentChange[];
+
+    interface DryRunCollectionChanges {
+        // upserted documents included
+        inserted: number;
+        // modified documents only
+        updated: number;
+        removed: number;
+    }
+
+    // by collection name
+    type DryRunChanges = Record<string, DryRunCollectionChanges>;
+
+    interface DryRunResult<R> {
+        result: R;
+        changes: DryRunChanges;
+    }
+
+    interface JournalOptions {
+        // field names (or the last segment of dotted paths) replaced by '[REDACTED]' on export
+        redactFields?: string[];
+        // default 1000
+        maxEntries?: number;
+    }
+
+    interface JournalEntry {
+        collection: string;
+        method: string;
+        args: unknown[];
+        attempt: number;
+        offsetMs: number;
+        durationMs?: number;
+        result?: unknown;
+        error?: {name?: string; message?: string; code?: unknown};
+    }
+
+    interface TransactionJournal {
+        transactionId: number;
+        entries: JournalEntry[];
+        maxEntries: number;
+        skipped: number;
+        // redacted copy of the journal, used by JSON.stringify
+        toJSON(): object;
+    }
+
+    type RetryPhase = 'transaction' | 'commit';
+
+    interface RetryInfo {
+        attempt: number;
+        phase: RetryPhase;
+        error: unknown;
+        delayMs: number;
     }
 
+    interface RetryPolicy {
+        maxAttempts?: number;
+        maxDurationMs?: number;
+        initialDelayMs?: number;
+        maxDelayMs?: number;
+        backoffFactor?: number;
+        jitter?: boolean;
+        isRetryable?: (error: unknown, phase: RetryPhase) => boolean;
+        commitOnly?: boolean;
+        onRetry?: (info: RetryInfo) => void;
+    }
+
+    function defaultIsRetryable(error: unknown, phase: RetryPhase): boolean;
+
+    type TransactionEventType = 'start' | 'commit' | 'abort' | 'retry' | 'end';
+
+    interface TransactionEvent {
+        type: TransactionEventType;
+        transactionId: number;
+        durationMs: number;
+        attempt: number;
+        operationCount: number;
+        error?: unknown;
+        phase?: RetryPhase;
+        delayMs?: number;
+        outcome?: 'committed' | 'aborted' | 'dryRun';
+        dryRun?: boolean;
+        withoutTransaction?: boolean;
+        journal?: TransactionJournal;
+    }
+
+    type TransactionEventListener = (event: TransactionEvent) => void;
+
+    interface TransactionMetricsOptions {
+        prefix?: string;
+        durationBuckets?: number[];
+        operationBuckets?: number[];
+    }
+
+    interface TransactionMetrics {
+        render(): string;
+        reset(): void;
+        stop(): void;
+    }
+
+    function onTransactionEvent(listener: TransactionEventListener): () => void;
+    function createTransactionMetrics(options?: TransactionMetricsOptions): TransactionMetrics;
+
+    type Propagation = 'required' | 'requiresNew' | 'nested';
+
     type TransactionCallback<R> = (session: ClientSession) => R;
+    type TransactionCallbackAsync<R> = (session: ClientSession) => Promise<R>;
+
+    // Meteor.EnvironmentVariable with fibers, AsyncLocalStorage based implementation without them
+    interface SessionVariable<T> {
+        get(): T | undefined;
+        withValue<R>(value: T, fn: () => R): R;
+    }
 
     interface SessionContext {
         session: ClientSession;
@@ -27,16 +176,233 @@ declare module 'meteor/bhunjadi:mongo-transactions' {
         callbackCount: number;
         callbackErrors: unknown[];
         resolveCallbacks();
+
+        rollbackOnly: boolean;
+        savepoints: unknown[];
+        hooks: TransactionHooks;
+        method?: MethodContext;
+        stats: TransactionStats;
+        journal?: TransactionJournal;
+        cursors: TrackedCursor[];
+        maxDurationMs?: number;
+        dryRun?: DryRunChanges;
+        changeSet?: ChangeSet;
+        deferUntilCommit?: boolean;
+    }
+
+    interface TrackedCursor {
+        cursor: unknown;
+        collectionName: string;
+        method: string;
+        expired: boolean;
+    }
+
+    interface TransactionStats {
+        id: number;
+        startedAt: number;
+        attempt: number;
+        operationCount: number;
+    }
+
+    interface MethodContext {
+        name: string;
+        userId: string | null;
+        connection: Meteor.Connection | null;
+        invocation: Meteor.MethodThisType;
+    }
+
+    interface TransactionHooks {
+        commit: Array<(changeSet?: ChangeSet) => unknown>;
+        abort: Array<(error: unknown) => unknown>;
+        finally: Array<() => unknown>;
     }
 
-    const sessionVariable: Meteor.EnvironmentVariable<SessionContext | undefined>;
-    function runInTransaction<R>(fn: TransactionCallback<R>, options?: RunInTransactionOptions): R;
+    const sessionVariable: SessionVariable<SessionContext | undefined>;
+    // runInTransaction, runInTransactionAsync and isInTransaction are available on the client too, see README
+    function runInTransaction<R>(fn: TransactionCallback<R>, options?: RunInTransactionOptions | string): R;
+    function runInTransactionAsync<R>(fn: TransactionCallbackAsync<R>, options?: RunInTransactionOptions | string): Promise<R>;
+    // transaction which is always aborted, see README
+    function dryRunTransaction<R>(fn: TransactionCallback<R>, options?: RunInTransactionOptions | string): DryRunResult<R>;
+    function dryRunTransactionAsync<R>(fn: TransactionCallbackAsync<R>, options?: RunInTransactionOptions | string): Promise<DryRunResult<R>>;
     function isInTransaction(): boolean;
+    // Causally consistent session without a transaction, see README.
+    function runInSession<R>(fn: TransactionCallback<R>, sessionOptions?: SessionOptions): R;
+    function runInSessionAsync<R>(fn: TransactionCallbackAsync<R>, sessionOptions?: SessionOptions): Promise<R>;
+    function isInSession(): boolean;
+    // Runs fn without the transaction context, collection methods inside don't get the session.
+    function runOutsideTransaction<R>(fn: () => R): R;
+    function runOutsideTransactionAsync<R>(fn: () => Promise<R>): Promise<R>;
+    function getTransactionJournal(): TransactionJournal | undefined;
+    // documents written so far, with the changeSet option
+    function getChangeSet(): ChangeSet | undefined;
+
+    type NamespaceMode = 'off' | 'startup' | 'lazy';
+
+    interface NamespaceOptions {
+        // default 'off'
+        mode?: NamespaceMode;
+        // create indexes declared with declareCollection together with the collection (default true)
+        createIndexes?: boolean;
+    }
+
+    // Create collections used in transactions upfront, outside of any session.
+    function configureNamespaces(options: NamespaceOptions): void;
+    function declareCollection(collection: Mongo.Collection<any>, declaration?: {indexes?: IndexDescription[]}): void;
+    function ensureNamespaces(): Promise<void>;
+
+    // Register callbacks which are run after the current transaction is committed/aborted (finally runs in both cases).
+    // changeSet is passed when the transaction was started with the changeSet option
+    function onCommit(fn: (changeSet?: ChangeSet) => unknown): void;
+    function onAbort(fn: (error: unknown) => unknown): void;
+    function onFinally(fn: () => unknown): void;
+
+    type OutboxEventStatus = 'pending' | 'processing' | 'done' | 'failed';
+
+    interface OutboxEvent<P = unknown> {
+        _id: ObjectId;
+        type: string;
+        payload: P;
+        status: OutboxEventStatus;
+        createdAt: Date;
+        attempts: number;
+        lockedUntil?: Date;
+        processedAt?: Date;
+        lastError?: string;
+    }
+
+    type OutboxEventHandler<P = any> = (event: OutboxEvent<P>) => unknown | Promise<unknown>;
+
+    interface OutboxOptions {
+        collectionName?: string;
+    }
+
+    interface OutboxDispatcherOptions {
+        pollIntervalMs?: number;
+        batchSize?: number;
+        lockTimeoutMs?: number;
+        maxAttempts?: number;
+    }
+
+    interface OutboxDispatcher {
+        stop(): void;
+    }
+
+    function configureOutbox(options: OutboxOptions): void;
+    function enqueueEvent<P>(type: string, payload: P): ObjectId;
+    function enqueueEventAsync<P>(type: string, payload: P): Promise<ObjectId>;
+    function registerEventHandler<P = any>(type: string, handler: OutboxEventHandler<P>): () => void;
+    function startOutboxDispatcher(options?: OutboxDispatcherOptions): OutboxDispatcher;
 
     class CallbackError extends Error {
         callbackErrors: unknown[];
     }
 
+    class RollbackOnlyError extends Error {}
+    class ClientMismatchError extends Error {}
+    class IllegalOperationError extends Error {
+        collectionName: string;
+        method: string;
+    }
+    // write expecting a document version found the document at another version
+    class VersionConflictError extends Error {
+        collectionName: string;
+        expectedVersion: number;
+        actualVersion: unknown;
+    }
+    // cursor created inside the transaction was used after it ended
+    class CursorExpiredError extends Error {
+        transactionId: number;
+        collectionName: string;
+        method: string;
+    }
+    // transaction ran longer than its maxDurationMs option
+    class TransactionTimeoutError extends Error {
+        transactionId: number;
+        maxDurationMs: number;
+    }
+    // transaction was started on a standalone MongoDB server
+    class TransactionsNotSupportedError extends Error {}
+
+    type GuardMode = 'throw' | 'outside' | 'passThrough';
+    type GuardedOperation = 'drop' | 'createIndex' | 'createIndexes' | 'dropIndex' | 'dropIndexes' | 'rename'
+        | 'mapReduce' | 'watch' | 'estimatedDocumentCount' | 'aggregate';
+
+    interface GuardPolicy {
+        // mode of the operations which are not listed in operations (default 'passThrough')
+        default?: GuardMode;
+        // aggregate is guarded only when the pipeline ends with $out or $merge
+        operations?: Partial<Record<GuardedOperation, GuardMode>>;
+    }
+
+    function configureGuard(policy: GuardPolicy): void;
+
+    type Topology = 'standalone' | 'replicaSet' | 'sharded' | 'unknown';
+    // what a new transaction does on a standalone server, see README
+    type StandaloneMode = 'throw' | 'withoutTransaction';
+
+    interface TopologyOptions {
+        // default 'throw'
+        standalone?: StandaloneMode;
+        // used instead of the detected topology
+        topology?: Topology;
+    }
+
+    function configureTopology(options: TopologyOptions): void;
+    function getTopology(driver?: TransactionDriver): Promise<Topology>;
+
+    // matb33:collection-hooks after hooks, set per hook with the transaction option
+    type AfterHookMode = 'inside' | 'afterCommit';
+
+    interface CollectionHooksOptions {
+        // mode of after hooks registered without the transaction option (default 'inside')
+        afterHooks?: AfterHookMode;
+    }
+
+    function configureCollectionHooks(options: CollectionHooksOptions): void;
+
+    interface VersioningOptions {
+        // default '_version'
+        field?: string;
+    }
+
+    // version field is set on insert and incremented on update, see README
+    function enableVersioning(collection: Mongo.Collection<any>, options?: VersioningOptions): void;
+
+    interface LockOptions {
+        // default '_lock'
+        lockField?: string;
+    }
+
+    // takes the write lock on matching documents inside a transaction and returns them, see README
+    function lockForUpdate<T>(collection: Mongo.Collection<T>, selector: Mongo.Selector<T> | string, options?: LockOptions): T[];
+    function lockForUpdateAsync<T>(collection: Mongo.Collection<T>, selector: Mongo.Selector<T> | string, options?: LockOptions): Promise<T[]>;
+
+    // Collection methods of the installed mongodb driver which do not get the session, checked on startup.
+    function getUnpatchedMethods(): string[];
+
+    type TransactionalMethod = (this: Meteor.MethodThisType, ...args: any[]) => any;
+
+    interface TransactionalMethodDefinition {
+        run: TransactionalMethod;
+        // false runs the method without a transaction
+        transaction?: boolean | RunInTransactionOptions | string;
+    }
+
+    interface TransactionalMethodsOptions {
+        transactionOptions?: RunInTransactionOptions | string;
+        convertError?: (error: unknown, methodName: string) => unknown;
+    }
+
+    function transactionalMethods(
+        methods: Record<string, TransactionalMethod | TransactionalMethodDefinition>,
+        options?: TransactionalMethodsOptions,
+    ): void;
+    function transactionMixin<T extends TransactionalMethodDefinition & {name: string}>(methodOptions: T): T;
+    function toMeteorError(error: unknown, methodName: string): unknown;
+
     function setDefaultOptions(options: RunInTransactionOptions): void;
     function getDefaultOptions(): RunInTransactionOptions;
+    // named options merged on top of the default ones, runInTransaction(fn, 'billing'), see README
+    function defineTransactionProfile(name: string, options: RunInTransactionOptions): void;
+    function getTransactionProfile(name: string): RunInTransactionOptions;
 }
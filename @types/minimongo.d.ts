@@ -0,0 +1,16 @@
+declare module 'meteor/minimongo' {
+    // storage of Mongo.Collection on the client
+    class LocalCollection {
+        name: string | null;
+        // IdMap of the documents by _id
+        _docs: {
+            clone(): LocalCollection['_docs'];
+            get(id: unknown): any;
+            has(id: unknown): boolean;
+            forEach(iterator: (doc: any, id: unknown) => void): void;
+        };
+        insert(doc: object): unknown;
+        update(selector: object, modifier: object): number;
+        remove(selector: object): number;
+    }
+}
@@ -6,5 +6,11 @@ declare module 'meteor/mongo' {
         //     _insert(collectionName: string, document: any, callback?: Function): void;
         // }
         const Connection: any;
+
+        class RemoteCollectionDriver {
+            constructor(mongoUrl: string, options?: object);
+            mongo: MongoConnection;
+            open(name: string, connection?: unknown): unknown;
+        }
     }    
 }
@@ -11,11 +11,16 @@ Package.describe({
 });
 
 Package.onUse(function (api) {
-  api.versionsFrom('2.6');
+  api.versionsFrom(['2.6', '3.0']);
   api.use('typescript');
   api.use('promise');
   api.use('mongo');
+  // only to be loaded after it, hooks are wrapped when the app uses it
+  api.use('matb33:collection-hooks@1.1.0 || 2.0.0', 'server', { weak: true });
+  api.use(['minimongo', 'ejson'], 'client');
   api.mainModule('src/index.ts', 'server');
+  // runInTransaction in method stubs of shared code
+  api.mainModule('src/client.ts', 'client');
 });
 
 Package.onTest(function (api) {
@@ -23,6 +28,7 @@ Package.onTest(function (api) {
   api.use('bhunjadi:mongo-transactions');
   api.use('mongo');
   api.use('underscore');
+  api.use('matb33:collection-hooks@1.1.0 || 2.0.0');
   api.use('meteortesting:mocha');
   api.mainModule('tests/server/index.ts', 'server');
   api.mainModule('tests/client/index.ts', 'client');
@@ -0,0 +1,163 @@
+import type { ClientSession, Collection, Document } from 'mongodb';
+import { isDeepStrictEqual } from 'util';
+import { originalMethods } from './rawCollection';
+import {
+  FILTER_WRITE_METHODS,
+  getInsertedIds,
+  INSERT_METHODS,
+} from './savepoint';
+import { SessionContext } from './types';
+
+/**
+ * With the changeSet option, every write records before and after images of the documents it affected.
+ * Documents matched by the write's filter are read before the write and all affected documents are read again
+ * by their _id after it, in the same session, so the images are those seen by the transaction.
+ * Writes of a single document are pinned to the _id of the document read before, the server could pick another one
+ * of the matching documents otherwise. Documents which matched, but were not modified, are not recorded.
+ */
+
+export interface DocumentChange {
+  collection: string;
+  method: string;
+  documentId: unknown;
+  // null for inserted (or upserted) documents
+  before: Document | null;
+  // null for removed documents
+  after: Document | null;
+}
+
+export type ChangeSet = DocumentChange[];
+
+// only the first matched document is written
+const SINGLE_DOCUMENT_METHODS = [
+  'updateOne',
+  'replaceOne',
+  'deleteOne',
+  'findOneAndUpdate',
+  'findOneAndReplace',
+  'findOneAndDelete',
+];
+
+// writes which can't be captured, rejected when capturing
+const UNSUPPORTED_WRITE_METHODS = ['bulkWrite'];
+
+function readBefore(
+  session: ClientSession,
+  collection: Collection,
+  method: string,
+  writeArgs: unknown[],
+): Promise<Document[]> {
+  const filter = (writeArgs[0] ?? {}) as Document;
+  if (!SINGLE_DOCUMENT_METHODS.includes(method)) {
+    return originalMethods.find.call(collection, filter, { session }).toArray();
+  }
+  // the document is picked by the sort option, if any
+  const options = (
+    method === 'deleteOne' || method === 'findOneAndDelete'
+      ? writeArgs[1]
+      : writeArgs[2]
+  ) as Document | undefined;
+  return originalMethods.find
+    .call(collection, filter, { session, sort: options?.sort, limit: 1 })
+    .toArray();
+}
+
+/**
+ * Single document write applies to the document whose before image was read.
+ */
+function pinToDocument(
+  method: string,
+  writeArgs: unknown[],
+  before: Document[],
+): unknown[] {
+  if (!SINGLE_DOCUMENT_METHODS.includes(method) || before.length === 0) {
+    return writeArgs;
+  }
+  const [filter, ...rest] = writeArgs;
+  return [{ ...(filter as Document), _id: before[0]._id }, ...rest];
+}
+
+async function readAfter(
+  session: ClientSession,
+  collection: Collection,
+  ids: unknown[],
+): Promise<Map<string, Document>> {
+  const documents: Document[] =
+    ids.length > 0
+      ? await originalMethods.find
+          .call(collection, { _id: { $in: ids } }, { session })
+          .toArray()
+      : [];
+  return new Map(documents.map((doc) => [String(doc._id), doc]));
+}
+
+/**
+ * Runs the write while capturing its changes into context.changeSet.
+ * Supports both promise and callback style, callback is expected to be the last argument.
+ */
+export function captureChanges<R>(
+  context: SessionContext,
+  collection: Collection,
+  method: string,
+  args: unknown[],
+  invoke: (args: unknown[]) => R,
+): R {
+  const { changeSet, session } = context;
+  const isCaptured =
+    FILTER_WRITE_METHODS.includes(method) || INSERT_METHODS.includes(method);
+  if (
+    !changeSet ||
+    (!isCaptured && !UNSUPPORTED_WRITE_METHODS.includes(method))
+  ) {
+    return invoke(args);
+  }
+  if (!isCaptured) {
+    throw new Error(
+      `${method} on ${collection.collectionName} is not supported with the changeSet option.`,
+    );
+  }
+
+  const callback =
+    typeof args[args.length - 1] === 'function'
+      ? (args[args.length - 1] as Function)
+      : undefined;
+  const writeArgs = callback ? args.slice(0, -1) : args;
+
+  const promise = (async () => {
+    const before = FILTER_WRITE_METHODS.includes(method)
+      ? await readBefore(session, collection, method, writeArgs)
+      : [];
+
+    const result = await invoke(pinToDocument(method, writeArgs, before));
+
+    const ids = [...before.map((doc) => doc._id), ...getInsertedIds(result)];
+    const after = await readAfter(session, collection, ids);
+    const beforeById = new Map(before.map((doc) => [String(doc._id), doc]));
+    ids.forEach((documentId) => {
+      const key = String(documentId);
+      const beforeImage = beforeById.get(key) ?? null;
+      const afterImage = after.get(key) ?? null;
+      // matched, but not modified
+      if (isDeepStrictEqual(beforeImage, afterImage)) {
+        return;
+      }
+      changeSet.push({
+        collection: collection.collectionName,
+        method,
+        documentId,
+        before: beforeImage,
+        after: afterImage,
+      });
+    });
+    return result;
+  })();
+
+  if (callback) {
+    promise.then(
+      (result) => callback(null, result),
+      (error) => callback(error),
+    );
+    return undefined as R;
+  }
+  return promise as R;
+}
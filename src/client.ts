@@ -0,0 +1,188 @@
+import { EJSON } from 'meteor/ejson';
+import { LocalCollection } from 'meteor/minimongo';
+import { Mongo } from 'meteor/mongo';
+
+/**
+ * Client entry point, so that methods defined in shared code can call runInTransaction in their stubs.
+ * Minimongo has no transactions: the documents written by collection methods inside fn are remembered before their
+ * first write and restored when fn throws, so the optimistic UI of a failed stub is rolled back at once.
+ * Only writes through Mongo.Collection methods are remembered. Data from the server is written to Minimongo
+ * directly, so it is not undone even when it arrives while an async fn awaits.
+ */
+
+interface DocumentSnapshot {
+  id: unknown;
+  // undefined when the document did not exist
+  doc: any;
+}
+
+interface ClientTransaction {
+  // written documents as they were before their first write, by collection and stringified _id
+  snapshots: Map<LocalCollection, Map<string, DocumentSnapshot>>;
+}
+
+// client is single threaded, there is at most one transaction running (a call made while it runs joins it)
+let current: ClientTransaction | undefined;
+
+const INSERT_METHODS = ['insert', 'insertAsync'];
+const WRITE_METHODS = [
+  ...INSERT_METHODS,
+  'update',
+  'upsert',
+  'remove',
+  'updateAsync',
+  'upsertAsync',
+  'removeAsync',
+];
+
+function remember(
+  transaction: ClientTransaction,
+  collection: LocalCollection,
+  id: unknown,
+  doc: any,
+) {
+  let snapshots = transaction.snapshots.get(collection);
+  if (!snapshots) {
+    snapshots = new Map();
+    transaction.snapshots.set(collection, snapshots);
+  }
+  const key = EJSON.stringify(id as EJSON);
+  if (!snapshots.has(key)) {
+    snapshots.set(key, { id, doc: doc && EJSON.clone(doc) });
+  }
+}
+
+/**
+ * Documents matched by the selector (or the inserted one) before the write.
+ */
+function rememberBeforeWrite(
+  transaction: ClientTransaction,
+  collection: Mongo.Collection<any>,
+  method: string,
+  args: unknown[],
+) {
+  const localCollection: LocalCollection = (collection as any)._collection;
+  if (INSERT_METHODS.includes(method)) {
+    const id = (args[0] as any)?._id;
+    if (id !== undefined) {
+      remember(transaction, localCollection, id, localCollection._docs.get(id));
+    }
+    return;
+  }
+  collection
+    .find(args[0] as Mongo.Selector<any>)
+    .fetch()
+    .forEach((doc) => remember(transaction, localCollection, doc._id, doc));
+}
+
+/**
+ * Ids generated by insert and upsert are known only from the result.
+ */
+function rememberInserted(
+  transaction: ClientTransaction,
+  collection: Mongo.Collection<any>,
+  method: string,
+  result: any,
+) {
+  const id = INSERT_METHODS.includes(method) ? result : result?.insertedId;
+  if (id !== undefined && id !== null) {
+    remember(transaction, (collection as any)._collection, id, undefined);
+  }
+}
+
+WRITE_METHODS.forEach((method) => {
+  const prototype = Mongo.Collection.prototype as any;
+  const originalMethod = prototype[method];
+  if (typeof originalMethod !== 'function') {
+    return;
+  }
+  prototype[method] = function (
+    this: Mongo.Collection<any>,
+    ...args: unknown[]
+  ) {
+    const transaction = current;
+    if (!transaction) {
+      return originalMethod.apply(this, args);
+    }
+    rememberBeforeWrite(transaction, this, method, args);
+    const result = originalMethod.apply(this, args);
+    if (typeof result?.then === 'function') {
+      result.then(
+        (value: unknown) => rememberInserted(transaction, this, method, value),
+        () => {},
+      );
+    } else {
+      rememberInserted(transaction, this, method, result);
+    }
+    return result;
+  };
+});
+
+/**
+ * Writes the differences back through the Minimongo methods, so that observers (and the UI) are notified.
+ */
+function restoreDocument(
+  collection: LocalCollection,
+  { id, doc }: DocumentSnapshot,
+) {
+  const currentDoc = collection._docs.get(id);
+  if (!doc) {
+    if (currentDoc) {
+      collection.remove({ _id: id });
+    }
+  } else if (!currentDoc) {
+    collection.insert(EJSON.clone(doc));
+  } else if (!EJSON.equals(currentDoc, doc)) {
+    const { _id, ...replacement } = EJSON.clone(doc);
+    collection.update({ _id: id }, replacement);
+  }
+}
+
+function rollback(transaction: ClientTransaction) {
+  transaction.snapshots.forEach((snapshots, collection) =>
+    snapshots.forEach((snapshot) => restoreDocument(collection, snapshot)),
+  );
+}
+
+/**
+ * Inside a running transaction, fn joins it.
+ */
+export function runInTransaction<R>(fn: () => R): R {
+  if (current) {
+    return fn();
+  }
+  const transaction: ClientTransaction = { snapshots: new Map() };
+  current = transaction;
+  try {
+    return fn();
+  } catch (e) {
+    current = undefined;
+    rollback(transaction);
+    throw e;
+  } finally {
+    current = undefined;
+  }
+}
+
+export async function runInTransactionAsync<R>(
+  fn: () => Promise<R>,
+): Promise<R> {
+  if (current) {
+    return fn();
+  }
+  const transaction: ClientTransaction = { snapshots: new Map() };
+  current = transaction;
+  try {
+    return await fn();
+  } catch (e) {
+    current = undefined;
+    rollback(transaction);
+    throw e;
+  } finally {
+    current = undefined;
+  }
+}
+
+export function isInTransaction(): boolean {
+  return !!current;
+}
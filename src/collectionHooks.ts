@@ -0,0 +1,140 @@
+import { onCommit } from './hooks';
+import { getTransactionContext } from './sessionVariable';
+
+/**
+ * Integration with matb33:collection-hooks, installed on startup when the app uses the package.
+ * Every hook registered with collection.before.* and collection.after.* is wrapped:
+ * - before hooks run in the transaction of the mutation, so their writes are a part of it
+ * - after hooks run in the transaction ('inside', the default) or are deferred until it commits ('afterCommit')
+ *   and dropped when it aborts
+ *
+ * Hooks called when their transaction has already ended (async callbacks) throw a descriptive error instead of
+ * the driver's "Use of expired sessions".
+ */
+
+export type AfterHookMode = 'inside' | 'afterCommit';
+
+export interface CollectionHooksOptions {
+  // mode of after hooks registered without the transaction option
+  afterHooks?: AfterHookMode;
+}
+
+// hook options of collection-hooks, extended with our own
+interface HookOptions {
+  transaction?: AfterHookMode;
+  [option: string]: unknown;
+}
+
+type Pointcut = 'before' | 'after';
+
+const POINTCUTS: Pointcut[] = ['before', 'after'];
+
+let collectionHooksOptions: CollectionHooksOptions = {};
+
+export function configureCollectionHooks(options: CollectionHooksOptions) {
+  collectionHooksOptions = options;
+}
+
+function getCollectionHooks(): any {
+  return (Package as any)['matb33:collection-hooks']?.CollectionHooks;
+}
+
+function wrapHook(
+  collectionName: string,
+  pointcut: Pointcut,
+  method: string,
+  aspect: Function,
+  options: HookOptions | undefined,
+) {
+  return function (this: unknown, ...args: unknown[]) {
+    const context = getTransactionContext();
+    if (!context) {
+      return aspect.apply(this, args);
+    }
+    // without a transaction (standalone server) the session is used until it ends
+    const ended = context.withoutTransaction
+      ? context.ended
+      : context.ended || !context.session.inTransaction();
+    if (ended) {
+      throw new Error(
+        `${pointcut}.${method} hook of collection ${collectionName} was called after transaction ${context.stats.id} ` +
+          'had ended. Use the waitForCallbacks option or register the hook with {transaction: "afterCommit"}.',
+      );
+    }
+
+    const mode =
+      pointcut === 'after'
+        ? (options?.transaction ??
+          collectionHooksOptions.afterHooks ??
+          'inside')
+        : 'inside';
+    if (mode === 'afterCommit') {
+      onCommit(() => aspect.apply(this, args));
+      return undefined;
+    }
+    return aspect.apply(this, args);
+  };
+}
+
+/**
+ * Wraps the hook registration functions (collection.before.insert, ...) of a collection extended by collection-hooks.
+ */
+function wrapHookRegistration(collection: any) {
+  POINTCUTS.forEach((pointcut) => {
+    const registrations = collection[pointcut];
+    if (!registrations) {
+      return;
+    }
+    Object.keys(registrations).forEach((method) => {
+      const register = registrations[method];
+      registrations[method] = function (
+        aspect: Function,
+        options?: HookOptions,
+      ) {
+        const handle = register.call(
+          this,
+          wrapHook(collection._name, pointcut, method, aspect, options),
+          options,
+        );
+        const replace = handle?.replace;
+        if (typeof replace === 'function') {
+          handle.replace = (
+            replacement: Function,
+            replacementOptions?: HookOptions,
+          ) =>
+            replace.call(
+              handle,
+              wrapHook(
+                collection._name,
+                pointcut,
+                method,
+                replacement,
+                replacementOptions,
+              ),
+              replacementOptions,
+            );
+        }
+        return handle;
+      };
+    });
+  });
+}
+
+/**
+ * Collections created before this is called (e.g. Meteor.users of packages loaded earlier) are not wrapped.
+ */
+export function patchCollectionHooks() {
+  const CollectionHooks = getCollectionHooks();
+  if (!CollectionHooks) {
+    return;
+  }
+  const extendCollectionInstance = CollectionHooks.extendCollectionInstance;
+  CollectionHooks.extendCollectionInstance = function (
+    collection: unknown,
+    ...args: unknown[]
+  ) {
+    const result = extendCollectionInstance.call(this, collection, ...args);
+    wrapHookRegistration(collection);
+    return result;
+  };
+}
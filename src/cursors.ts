@@ -0,0 +1,135 @@
+import { captureCallSite } from './deadline';
+import { CursorExpiredError } from './errors';
+import { SessionContext, TrackedCursor } from './types';
+
+/**
+ * Cursors keep the session they were created with, so they can't be used once the transaction is over.
+ * Cursors created inside the transaction are tracked, closed when it ends and later use of them throws
+ * CursorExpiredError instead of the driver's "Use of expired sessions".
+ */
+
+export const CURSOR_METHODS = ['find', 'aggregate'];
+
+// methods returning a promise reject (or call the callback with driver 4), the others throw
+const ASYNC_CURSOR_METHODS = [
+  'next',
+  'tryNext',
+  'hasNext',
+  'toArray',
+  'forEach',
+  'count',
+  'explain',
+];
+const SYNC_CURSOR_METHODS = ['stream', 'rewind', 'clone', 'map'];
+
+function createExpiredError(
+  context: SessionContext,
+  tracked: TrackedCursor,
+  cursorMethod: string,
+) {
+  const methodName = tracked.transactionMethod
+    ? ` (method ${tracked.transactionMethod})`
+    : '';
+  const [frame = ''] = tracked.callSite.split('\n');
+  return new CursorExpiredError(
+    `Cursor created by ${tracked.method} on collection ${tracked.collectionName} in transaction ${context.stats.id}` +
+      `${methodName} ${frame.trim()} was used (${cursorMethod}) after the transaction ended. ` +
+      'Read the cursor inside the transaction.',
+    context.stats.id,
+    tracked.collectionName,
+    tracked.method,
+  );
+}
+
+/**
+ * Callback of driver 4, the last argument. The only argument of forEach is the iterator.
+ */
+function getCallback(
+  cursorMethod: string,
+  args: unknown[],
+): Function | undefined {
+  const last = args[args.length - 1];
+  if (typeof last !== 'function') {
+    return undefined;
+  }
+  return cursorMethod === 'forEach' && args.length < 2 ? undefined : last;
+}
+
+export function trackCursor(
+  context: SessionContext,
+  cursor: any,
+  collectionName: string,
+  method: string,
+) {
+  if (!cursor || typeof cursor.close !== 'function') {
+    return;
+  }
+
+  const tracked: TrackedCursor = {
+    cursor,
+    collectionName,
+    method,
+    // context.method is restored by the time the cursor is used
+    transactionMethod: context.method?.name,
+    callSite: captureCallSite(),
+    expired: false,
+  };
+  context.cursors.push(tracked);
+
+  ASYNC_CURSOR_METHODS.forEach((cursorMethod) => {
+    const original = cursor[cursorMethod];
+    if (typeof original !== 'function') {
+      return;
+    }
+    cursor[cursorMethod] = function (...args: unknown[]) {
+      if (!tracked.expired) {
+        return original.apply(this, args);
+      }
+      const error = createExpiredError(context, tracked, cursorMethod);
+      const callback = getCallback(cursorMethod, args);
+      if (callback) {
+        process.nextTick(() => callback(error));
+        return undefined;
+      }
+      return Promise.reject(error);
+    };
+  });
+
+  [...SYNC_CURSOR_METHODS, Symbol.asyncIterator].forEach((cursorMethod) => {
+    const original = cursor[cursorMethod];
+    if (typeof original !== 'function') {
+      return;
+    }
+    cursor[cursorMethod] = function (...args: unknown[]) {
+      if (tracked.expired) {
+        throw createExpiredError(context, tracked, String(cursorMethod));
+      }
+      return original.apply(this, args);
+    };
+  });
+}
+
+/**
+ * Called when the transaction (or runInSession) ends, before its session is ended, so that the cursors can still be
+ * killed on the server. Closing errors are logged, the cursor can't be used anyway.
+ */
+export async function expireCursors(context: SessionContext) {
+  const { cursors } = context;
+  context.cursors = [];
+  await Promise.all(
+    cursors.map(async (tracked) => {
+      tracked.expired = true;
+      if (tracked.cursor.closed) {
+        return;
+      }
+      try {
+        await tracked.cursor.close();
+      } catch (error) {
+        Meteor._debug(
+          `Exception in closing cursor on collection ${tracked.collectionName}:`,
+          error,
+        );
+      }
+    }),
+  );
+}
@@ -0,0 +1,82 @@
+import { TransactionTimeoutError } from './errors';
+import { SessionContext } from './types';
+
+/**
+ * MongoDB aborts transactions running longer than transactionLifetimeLimitSeconds, but that is known only at commit.
+ * With maxDurationMs, collection operations are rejected once the transaction runs too long, so it aborts early.
+ * Each operation also gets the time left as its maxTimeMS, so the server stops a slow one at the deadline.
+ * Code between operations is not interrupted, the deadline is checked again on the next operation and on commit.
+ * The duration includes all retry attempts.
+ */
+
+function getElapsed(context: SessionContext): number {
+  return Date.now() - context.stats.startedAt;
+}
+
+/**
+ * Throws TransactionTimeoutError when the transaction is past its deadline.
+ * Operation is the description of the rejected call, if any.
+ */
+export function assertBeforeDeadline(
+  context: SessionContext,
+  operation?: string,
+) {
+  const { maxDurationMs } = context;
+  if (maxDurationMs === undefined || context.sessionOnly) {
+    return;
+  }
+  const elapsed = getElapsed(context);
+  if (elapsed <= maxDurationMs) {
+    return;
+  }
+
+  const rejected = operation ? `, ${operation} was rejected` : '';
+  throw new TransactionTimeoutError(
+    `Transaction ${context.stats.id} exceeded maxDurationMs of ${maxDurationMs} ms after ${elapsed} ms${rejected}.`,
+    context.stats.id,
+    maxDurationMs,
+  );
+}
+
+/**
+ * maxTimeMS for the next operation of the transaction, undefined without a deadline.
+ */
+export function getRemainingTimeMs(
+  context: SessionContext,
+): number | undefined {
+  const { maxDurationMs } = context;
+  if (maxDurationMs === undefined || context.sessionOnly) {
+    return undefined;
+  }
+  // 0 would mean no limit
+  return Math.max(1, maxDurationMs - getElapsed(context));
+}
+
+/**
+ * Stack of the code calling into the package, e.g. of runInTransaction for the slow transaction warning.
+ */
+export function captureCallSite(): string {
+  const stack = new Error().stack ?? '';
+  // drop the message line and the frames of this package
+  return stack
+    .split('\n')
+    .slice(1)
+    .filter((line) => !line.includes('mongo-transactions/src/'))
+    .join('\n');
+}
+
+export function warnIfSlow(
+  context: SessionContext,
+  slowTransactionMs: number | undefined,
+  callSite: string | undefined,
+) {
+  if (slowTransactionMs === undefined) {
+    return;
+  }
+  const elapsed = getElapsed(context);
+  if (elapsed > slowTransactionMs) {
+    Meteor._debug(
+      `Slow transaction ${context.stats.id} took ${elapsed} ms (threshold ${slowTransactionMs} ms), started at:\n${callSite}`,
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { onCommit } from './hooks';
+import { getTransactionContext, sessionVariable } from './sessionVariable';
+
+/**
+ * Meteor.defer and Meteor.setTimeout bind the environment, so their callbacks see the transaction context
+ * and run with an expired session once the transaction has ended.
+ * With the deferUntilCommit option, they are queued as commit hooks instead: scheduled only after the transaction
+ * commits (setTimeout's delay starts then) and dropped when it aborts. Callbacks keep the rest of the environment,
+ * but run without the transaction context.
+ */
+
+/**
+ * Handle returned by Meteor.setTimeout while the timeout is queued, Meteor.clearTimeout accepts it.
+ */
+class QueuedTimeout {
+  cancelled = false;
+  handle: unknown;
+}
+
+function isQueued(): boolean {
+  return !!getTransactionContext()?.deferUntilCommit;
+}
+
+function bindWithoutTransaction(fn: Function) {
+  return Meteor.bindEnvironment(() =>
+    sessionVariable.withValue(undefined, () => fn()),
+  );
+}
+
+export function patchMeteorDefer() {
+  const { defer, setTimeout, clearTimeout } = Meteor;
+
+  Meteor.defer = function (fn: Function) {
+    if (!isQueued()) {
+      return defer.call(Meteor, fn);
+    }
+    const bound = bindWithoutTransaction(fn);
+    onCommit(() => defer.call(Meteor, bound));
+  };
+
+  Meteor.setTimeout = function (fn: Function, delay: number) {
+    if (!isQueued()) {
+      return setTimeout.call(Meteor, fn, delay);
+    }
+    const bound = bindWithoutTransaction(fn);
+    const queued = new QueuedTimeout();
+    onCommit(() => {
+      if (!queued.cancelled) {
+        queued.handle = setTimeout.call(Meteor, bound, delay);
+      }
+    });
+    return queued as any;
+  };
+
+  Meteor.clearTimeout = function (handle: any) {
+    if (!(handle instanceof QueuedTimeout)) {
+      return clearTimeout.call(Meteor, handle);
+    }
+    handle.cancelled = true;
+    if (handle.handle !== undefined) {
+      clearTimeout.call(Meteor, handle.handle as any);
+    }
+  };
+}
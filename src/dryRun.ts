@@ -0,0 +1,125 @@
+import { isWriteMethod } from './savepoint';
+import { SessionContext } from './types';
+
+/**
+ * Dry run executes the transaction for real and aborts it at the end, collecting counts of the written documents
+ * from the results of the write operations.
+ */
+
+export interface DryRunCollectionChanges {
+  // upserted documents included
+  inserted: number;
+  // documents which were actually modified, matched but unchanged ones are not counted
+  updated: number;
+  removed: number;
+}
+
+// by collection name
+export type DryRunChanges = Record<string, DryRunCollectionChanges>;
+
+export interface DryRunResult<R> {
+  result: R;
+  changes: DryRunChanges;
+}
+
+/**
+ * Thrown at the end of the dry run callback to abort the transaction, never leaves dryRunTransaction.
+ */
+export class DryRunAbort extends Error {
+  constructor() {
+    super('Dry run transaction is always aborted.');
+  }
+}
+
+const FIND_AND_MODIFY_METHODS = [
+  'findOneAndUpdate',
+  'findOneAndReplace',
+  'findOneAndDelete',
+];
+
+function countFindAndModify(
+  changes: DryRunCollectionChanges,
+  method: string,
+  result: any,
+) {
+  // drivers before 6 (or includeResultMetadata) return ModifyResult, otherwise the document itself
+  const isModifyResult = !!result && 'lastErrorObject' in result;
+  const document = isModifyResult ? result.value : result;
+  if (method === 'findOneAndDelete') {
+    changes.removed += document ? 1 : 0;
+  } else if (isModifyResult && result.lastErrorObject?.upserted) {
+    changes.inserted += 1;
+  } else if (document) {
+    changes.updated += 1;
+  }
+}
+
+function countWrite(
+  changes: DryRunCollectionChanges,
+  method: string,
+  result: any,
+) {
+  if (FIND_AND_MODIFY_METHODS.includes(method)) {
+    countFindAndModify(changes, method, result);
+    return;
+  }
+  if (!result) {
+    return;
+  }
+  changes.inserted +=
+    (result.insertedCount ?? (result.insertedId !== undefined ? 1 : 0)) +
+    (result.upsertedCount ?? 0);
+  changes.updated += result.modifiedCount ?? 0;
+  changes.removed += result.deletedCount ?? 0;
+}
+
+/**
+ * Copy of the counts, restored when a nested scope is rolled back.
+ */
+export function copyDryRunChanges(changes: DryRunChanges): DryRunChanges {
+  const copy: DryRunChanges = {};
+  Object.keys(changes).forEach((collectionName) => {
+    copy[collectionName] = { ...changes[collectionName] };
+  });
+  return copy;
+}
+
+/**
+ * Runs the operation and counts its written documents when the transaction is a dry run.
+ * Results are taken from the returned promise or, with callback drivers, from the callback (the last argument).
+ */
+export function recordDryRunWrite<R>(
+  context: SessionContext,
+  collectionName: string,
+  method: string,
+  args: unknown[],
+  operation: (args: unknown[]) => R,
+): R {
+  const { dryRun } = context;
+  if (!dryRun || !isWriteMethod(method)) {
+    return operation(args);
+  }
+
+  dryRun[collectionName] ??= { inserted: 0, updated: 0, removed: 0 };
+  const record = (result: unknown) =>
+    countWrite(dryRun[collectionName], method, result);
+
+  const callback = args[args.length - 1];
+  if (typeof callback === 'function') {
+    return operation([
+      ...args.slice(0, -1),
+      function (this: unknown, error: unknown, result: unknown) {
+        if (!error) {
+          record(result);
+        }
+        return callback.call(this, error, result);
+      },
+    ]);
+  }
+
+  const result = operation(args);
+  if (typeof (result as any)?.then === 'function') {
+    (result as any).then(record, () => {});
+  }
+  return result;
+}
@@ -0,0 +1,94 @@
+/**
+ * Errors thrown by the package, re-exported from index.ts.
+ */
+
+export class CallbackError extends Error {
+  constructor(
+    message: string,
+    private callbackErrors: unknown[],
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Thrown when the transaction (or nested scope) completes normally, but one of the joined scopes inside it failed.
+ */
+export class RollbackOnlyError extends Error {
+  constructor(message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Thrown when a transaction uses a collection (or a driver) of another MongoClient than the one it was started on.
+ * Sessions cannot be shared between clients, so a transaction always belongs to a single client.
+ */
+export class ClientMismatchError extends Error {
+  constructor(message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Thrown by the guard (see configureGuard) for operations which are not allowed inside a transaction.
+ */
+export class IllegalOperationError extends Error {
+  constructor(
+    message: string,
+    public collectionName: string,
+    public method: string,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Thrown when a cursor created inside a transaction is used after the transaction ended.
+ */
+export class CursorExpiredError extends Error {
+  constructor(
+    message: string,
+    public transactionId: number,
+    public collectionName: string,
+    public method: string,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Thrown when the transaction runs longer than its maxDurationMs option, the transaction is aborted.
+ */
+export class TransactionTimeoutError extends Error {
+  constructor(
+    message: string,
+    public transactionId: number,
+    public maxDurationMs: number,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Thrown when a transaction is started on a standalone MongoDB server, see configureTopology.
+ */
+export class TransactionsNotSupportedError extends Error {
+  constructor(message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Thrown when a write expecting a document version finds the document at another version, see enableVersioning.
+ */
+export class VersionConflictError extends Error {
+  constructor(
+    message: string,
+    public collectionName: string,
+    public expectedVersion: number,
+    public actualVersion: unknown,
+  ) {
+    super(message);
+  }
+}
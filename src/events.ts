@@ -0,0 +1,94 @@
+import { TransactionJournal } from './journal';
+import { RetryPhase } from './retry';
+import { SessionContext, TransactionStats } from './types';
+
+/**
+ * Lifecycle events of transactions started by runInTransaction (joined and nested scopes do not emit them):
+ * start -> retry (0..n) -> commit | abort -> end
+ * Dry runs (flagged with dryRun) do not emit abort, they end with the 'dryRun' outcome instead.
+ * Functions run without a transaction on a standalone server (see configureTopology) are flagged with
+ * withoutTransaction, their commit means only that the function completed.
+ */
+
+export type TransactionEventType =
+  'start' | 'commit' | 'abort' | 'retry' | 'end';
+
+export interface TransactionEvent {
+  type: TransactionEventType;
+  transactionId: number;
+  // time since the transaction started
+  durationMs: number;
+  attempt: number;
+  operationCount: number;
+  // abort, end (when aborted) and retry (when known)
+  error?: unknown;
+  // retry only
+  phase?: RetryPhase;
+  delayMs?: number;
+  // end only
+  outcome?: 'committed' | 'aborted' | 'dryRun';
+  // set on all events of a dry run, see dryRunTransaction
+  dryRun?: boolean;
+  // set on all events of a function run without a transaction, see configureTopology
+  withoutTransaction?: boolean;
+  // commit and abort, when the transaction was started with the journal option
+  journal?: TransactionJournal;
+}
+
+export type TransactionEventListener = (event: TransactionEvent) => void;
+
+const listeners = new Set<TransactionEventListener>();
+
+let lastTransactionId = 0;
+
+export function createTransactionStats(): TransactionStats {
+  lastTransactionId += 1;
+  return {
+    id: lastTransactionId,
+    startedAt: Date.now(),
+    attempt: 1,
+    operationCount: 0,
+  };
+}
+
+/**
+ * Returns the function which removes the listener.
+ */
+export function onTransactionEvent(
+  listener: TransactionEventListener,
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function emitTransactionEvent(
+  context: SessionContext,
+  type: TransactionEventType,
+  details: Partial<TransactionEvent> = {},
+) {
+  if (listeners.size === 0) {
+    return;
+  }
+
+  const { id, startedAt, attempt, operationCount } = context.stats;
+  const event: TransactionEvent = {
+    ...details,
+    ...(context.dryRun && { dryRun: true }),
+    ...(context.withoutTransaction && { withoutTransaction: true }),
+    type,
+    transactionId: id,
+    durationMs: Date.now() - startedAt,
+    attempt,
+    operationCount,
+  };
+
+  listeners.forEach((listener) => {
+    try {
+      listener(event);
+    } catch (error) {
+      Meteor._debug(`Exception in transaction ${type} event listener:`, error);
+    }
+  });
+}
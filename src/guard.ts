@@ -0,0 +1,72 @@
+/**
+ * Some operations are not allowed inside a transaction and fail on the server with errors which don't say much.
+ * Guard decides what happens when one of them is called with a transaction running:
+ * - 'throw' - IllegalOperationError is thrown before anything is sent to the server
+ * - 'outside' - operation runs without the session, i.e. outside the transaction
+ * - 'passThrough' (default) - operation is sent with the session, as any other
+ */
+
+export type GuardMode = 'throw' | 'outside' | 'passThrough';
+
+// aggregate is guarded only when the pipeline writes ($out or $merge stage)
+export type GuardedOperation =
+  | 'drop'
+  | 'createIndex'
+  | 'createIndexes'
+  | 'dropIndex'
+  | 'dropIndexes'
+  | 'rename'
+  | 'mapReduce'
+  | 'watch'
+  | 'estimatedDocumentCount'
+  | 'aggregate';
+
+export interface GuardPolicy {
+  // mode of the operations which are not listed in operations
+  default?: GuardMode;
+  operations?: Partial<Record<GuardedOperation, GuardMode>>;
+}
+
+const GUARDED_OPERATIONS: GuardedOperation[] = [
+  'drop',
+  'createIndex',
+  'createIndexes',
+  'dropIndex',
+  'dropIndexes',
+  'rename',
+  'mapReduce',
+  'watch',
+  'estimatedDocumentCount',
+  'aggregate',
+];
+
+let policy: GuardPolicy = {};
+
+export function configureGuard(guardPolicy: GuardPolicy) {
+  policy = guardPolicy;
+}
+
+function isWritingPipeline(pipeline: unknown): boolean {
+  if (!Array.isArray(pipeline) || pipeline.length === 0) {
+    return false;
+  }
+  const lastStage = pipeline[pipeline.length - 1];
+  return !!lastStage && ('$out' in lastStage || '$merge' in lastStage);
+}
+
+/**
+ * Mode for the method called with the given params (options and callback excluded).
+ */
+export function getGuardMode(method: string, params: unknown[]): GuardMode {
+  if (!GUARDED_OPERATIONS.includes(method as GuardedOperation)) {
+    return 'passThrough';
+  }
+  if (method === 'aggregate' && !isWritingPipeline(params[0])) {
+    return 'passThrough';
+  }
+  return (
+    policy.operations?.[method as GuardedOperation] ??
+    policy.default ??
+    'passThrough'
+  );
+}
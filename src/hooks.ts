@@ -0,0 +1,91 @@
+import type { ChangeSet } from './changeSet';
+import { getCurrentSavepoint } from './savepoint';
+import { getTransactionContext, sessionVariable } from './sessionVariable';
+import { TransactionHooks } from './types';
+
+/**
+ * Hooks are run after the transaction has finished, one by one in the order of registration:
+ * first onCommit or onAbort hooks, then onFinally hooks.
+ *
+ * Hook errors are logged and do not affect other hooks nor the result of the transaction.
+ * Hooks are run outside the transaction, i.e. collection methods used inside them do not get the session.
+ */
+
+// change set is passed when the transaction was started with the changeSet option
+export type CommitHook = (changeSet?: ChangeSet) => unknown;
+export type AbortHook = (error: unknown) => unknown;
+export type FinallyHook = () => unknown;
+
+export function createHooks(): TransactionHooks {
+  return {
+    commit: [],
+    abort: [],
+    finally: [],
+  };
+}
+
+/**
+ * Hooks of the innermost nested scope, or of the transaction itself.
+ */
+function getActiveHooks(name: string): TransactionHooks {
+  const context = getTransactionContext();
+  if (!context) {
+    throw new Error(`${name} can only be called inside a transaction.`);
+  }
+  return (getCurrentSavepoint(context) ?? context).hooks;
+}
+
+export function onCommit(fn: CommitHook) {
+  getActiveHooks('onCommit').commit.push(fn);
+}
+
+export function onAbort(fn: AbortHook) {
+  getActiveHooks('onAbort').abort.push(fn);
+}
+
+export function onFinally(fn: FinallyHook) {
+  getActiveHooks('onFinally').finally.push(fn);
+}
+
+async function runHooks(
+  name: string,
+  hooks: Array<(...args: any[]) => unknown>,
+  args: unknown[] = [],
+) {
+  for (const hook of hooks) {
+    try {
+      await hook(...args);
+    } catch (error) {
+      Meteor._debug(`Exception in ${name} hook:`, error);
+    }
+  }
+}
+
+export function runCommitHooks(
+  hooks: TransactionHooks,
+  changeSet?: ChangeSet,
+): Promise<void> {
+  return sessionVariable.withValue(undefined, async () => {
+    await runHooks('onCommit', hooks.commit, [changeSet]);
+    await runHooks('onFinally', hooks.finally);
+  });
+}
+
+/**
+ * Dry run is aborted on purpose, so only onFinally hooks run.
+ */
+export function runFinallyHooks(hooks: TransactionHooks): Promise<void> {
+  return sessionVariable.withValue(undefined, () =>
+    runHooks('onFinally', hooks.finally),
+  );
+}
+
+export function runAbortHooks(
+  hooks: TransactionHooks,
+  error: unknown,
+): Promise<void> {
+  return sessionVariable.withValue(undefined, async () => {
+    await runHooks('onAbort', hooks.abort, [error]);
+    await runHooks('onFinally', hooks.finally);
+  });
+}
@@ -1,13 +1,59 @@
 import { MongoInternals } from 'meteor/mongo';
 import { Promise } from 'meteor/promise';
-import type {
-  ClientSessionOptions,
-  TransactionOptions,
-  ClientSession,
-  MongoClient,
-} from 'mongodb';
-import patchCollectionMethods from './patchCollectionMethods';
-import { SessionContext } from './types';
+import type { ClientSessionOptions, ClientSession, MongoClient } from 'mongodb';
+import type { ChangeSet } from './changeSet';
+import { patchCollectionHooks } from './collectionHooks';
+import { expireCursors } from './cursors';
+import { patchMeteorDefer } from './defer';
+import { copyDryRunChanges, DryRunAbort, DryRunResult } from './dryRun';
+import { assertBeforeDeadline, captureCallSite, warnIfSlow } from './deadline';
+import {
+  CallbackError,
+  ClientMismatchError,
+  RollbackOnlyError,
+  TransactionsNotSupportedError,
+  TransactionTimeoutError,
+} from './errors';
+import { createTransactionStats, emitTransactionEvent } from './events';
+import {
+  createHooks,
+  runAbortHooks,
+  runCommitHooks,
+  runFinallyHooks,
+} from './hooks';
+import { createJournal, TransactionJournal } from './journal';
+import { trackCollections } from './namespaces';
+import {
+  getDefaultOptions,
+  RunInTransactionOptions,
+  TransactionDriver,
+} from './options';
+import patchCollectionMethods, {
+  checkPatchedMethods,
+} from './patchCollectionMethods';
+import { resolveOptions } from './profiles';
+import { getSessionClient } from './rawCollection';
+import { getRetryDelay, RetryPhase, RetryPolicy, sleep } from './retry';
+import {
+  discardSavepoint,
+  getCurrentSavepoint,
+  releaseSavepoint,
+  rollbackSavepoint,
+} from './savepoint';
+import {
+  awaitSync,
+  getTransactionContext,
+  isFibersEnabled,
+  sessionVariable,
+} from './sessionVariable';
+import {
+  canStartTransaction,
+  canStartTransactionOn,
+  detectTopology,
+  getDetectedTopology,
+  Topology,
+} from './topology';
+import { Savepoint, SessionContext } from './types';
 
 /**
  * Ideas from:
@@ -17,15 +63,6 @@ import { SessionContext } from './types';
  * https://mongodb.github.io/node-mongodb-native/3.6/api/Collection.html
  */
 
-export class CallbackError extends Error {
-  constructor(
-    message: string,
-    private callbackErrors: unknown[],
-  ) {
-    super(message);
-  }
-}
-
 function createCallbackError(errors: unknown[]) {
   const first = errors[0];
 
@@ -39,13 +76,95 @@ function createCallbackError(errors: unknown[]) {
   return new CallbackError(message, errors);
 }
 
-/**
- * Storing context here for each transaction.
- */
-export const sessionVariable = new Meteor.EnvironmentVariable<
-  SessionContext | undefined
->();
+export { sessionVariable };
+export {
+  CallbackError,
+  ClientMismatchError,
+  CursorExpiredError,
+  IllegalOperationError,
+  RollbackOnlyError,
+  TransactionsNotSupportedError,
+  TransactionTimeoutError,
+  VersionConflictError,
+} from './errors';
+export { getDefaultOptions, setDefaultOptions } from './options';
+export type {
+  Propagation,
+  RunInTransactionOptions,
+  TransactionDriver,
+} from './options';
+export { onCommit, onAbort, onFinally } from './hooks';
+export { defaultIsRetryable } from './retry';
+export { onTransactionEvent } from './events';
+export type {
+  TransactionEvent,
+  TransactionEventListener,
+  TransactionEventType,
+} from './events';
+export type { ChangeSet, DocumentChange } from './changeSet';
+export type {
+  DryRunChanges,
+  DryRunCollectionChanges,
+  DryRunResult,
+} from './dryRun';
+export type {
+  JournalEntry,
+  JournalOptions,
+  TransactionJournal,
+} from './journal';
+export { configureGuard } from './guard';
+export { configureTopology } from './topology';
+export type { StandaloneMode, Topology, TopologyOptions } from './topology';
+export { defineTransactionProfile, getTransactionProfile } from './profiles';
+export { configureCollectionHooks } from './collectionHooks';
+export { lockForUpdate, lockForUpdateAsync } from './lock';
+export { enableVersioning } from './versioning';
+export type { VersioningOptions } from './versioning';
+export type { LockOptions } from './lock';
+export type { AfterHookMode, CollectionHooksOptions } from './collectionHooks';
+export { getUnpatchedMethods } from './patchCollectionMethods';
+export type { GuardedOperation, GuardMode, GuardPolicy } from './guard';
+export { createTransactionMetrics } from './metrics';
+export {
+  configureNamespaces,
+  declareCollection,
+  ensureNamespaces,
+} from './namespaces';
+export type { NamespaceMode, NamespaceOptions } from './namespaces';
+export type { TransactionMetrics, TransactionMetricsOptions } from './metrics';
+export type { RetryInfo, RetryPhase, RetryPolicy } from './retry';
+export {
+  configureOutbox,
+  enqueueEvent,
+  enqueueEventAsync,
+  registerEventHandler,
+  startOutboxDispatcher,
+} from './outbox';
+export {
+  toMeteorError,
+  transactionalMethods,
+  transactionMixin,
+} from './methods';
+export type {
+  TransactionalMethod,
+  TransactionalMethodDefinition,
+  TransactionalMethodsOptions,
+} from './methods';
+export type {
+  OutboxDispatcher,
+  OutboxDispatcherOptions,
+  OutboxEvent,
+  OutboxEventHandler,
+  OutboxEventStatus,
+  OutboxOptions,
+} from './outbox';
 patchCollectionMethods(sessionVariable);
+patchCollectionHooks();
+patchMeteorDefer();
+trackCollections();
+// methods patched later by someone else would not get the session
+Meteor.startup(checkPatchedMethods);
+Meteor.startup(() => detectTopology(getClient()));
 
 /**
  * This function uses onException parameter to log all exceptions that have happened in bindEnvironment and
@@ -91,31 +210,19 @@ function patchBindEnvironment() {
     return originalBindEnvironment(fn, onException, _this);
   } as any;
 }
-patchBindEnvironment();
-
-function getClient(): MongoClient {
-  const { client } = MongoInternals.defaultRemoteCollectionDriver().mongo;
-  return client;
+// without fibers, bindEnvironment has nothing to catch as callbacks see the context through AsyncLocalStorage
+if (isFibersEnabled) {
+  patchBindEnvironment();
 }
 
-function createSession(options: ClientSessionOptions = {}) {
-  return getClient().startSession(options);
+function getClient(
+  driver: TransactionDriver = MongoInternals.defaultRemoteCollectionDriver(),
+): MongoClient {
+  return driver.mongo.client;
 }
 
-export interface RunInTransactionOptions {
-  sessionOptions?: ClientSessionOptions;
-  transactionOptions?: TransactionOptions;
-  // when true, using session.withTransaction which retries transaction callback or commit operation (whichever failed)
-  // see: https://mongodb.github.io/node-mongodb-native/3.6/api/ClientSession.html#withTransaction
-  retry?: boolean;
-
-  // Should the runInTransaction wait for all async callbacks, for example Meteor.insert({}, callback);
-  // Might be useful if cache is used.
-  waitForCallbacks?: boolean;
-  // Whether runInTransaction should catch async functions errors.
-  // True value only makes sense if waitForCallbacks is true.
-  // If there are any errors, runInTransaction will throw an error.
-  catchCallbackErrors?: boolean;
+function createSession(options: RunInTransactionOptions) {
+  return getClient(options.driver).startSession(options.sessionOptions ?? {});
 }
 
 export type TransactionCallback<R> = (session: ClientSession) => R;
@@ -125,96 +232,343 @@ export type TransactionCallbackAsync<R> = (
 
 type RunOptions = RunInTransactionOptions & {
   waitForCallbacksPromise?: globalThis.Promise<void>;
+  callSite?: string;
 };
 
-function runWithoutRetry<R>(
+/**
+ * Internally, both sync (fibers) and async callbacks go through the same async code.
+ */
+type Callback<R> = (session: ClientSession) => R | globalThis.Promise<R>;
+
+function assertNotRollbackOnly(context: SessionContext) {
+  if (context.rollbackOnly) {
+    throw new RollbackOnlyError(
+      'Transaction was marked as rollback-only by a failed inner scope.',
+    );
+  }
+  assertBeforeDeadline(context);
+}
+
+async function waitForCallbacks(context: SessionContext, options: RunOptions) {
+  if (options.waitForCallbacksPromise && context.callbackCount > 0) {
+    await options.waitForCallbacksPromise;
+    if (context.callbackErrors[0]) {
+      throw createCallbackError(context.callbackErrors);
+    }
+  }
+}
+
+/**
+ * Every attempt of the retried transaction starts from scratch.
+ */
+function resetAttempt(context: SessionContext) {
+  context.rollbackOnly = false;
+  context.savepoints = [];
+  context.hooks = createHooks();
+  context.callbackErrors = [];
+  if (context.changeSet) {
+    context.changeSet = [];
+  }
+}
+
+/**
+ * Cursors are closed first, killing them on the server needs the session.
+ */
+async function endSession(context: SessionContext) {
+  await expireCursors(context);
+  context.ended = true;
+  await context.session.endSession();
+}
+
+async function runWithoutRetry<R>(
   context: SessionContext,
-  fn: TransactionCallback<R>,
+  fn: Callback<R>,
   options: RunOptions,
-): R {
+): globalThis.Promise<R> {
   const { session } = context;
 
   let result;
   session.startTransaction(options.transactionOptions);
   try {
     try {
-      result = fn(session);
+      result = await fn(session);
     } finally {
-      if (options.waitForCallbacksPromise && context.callbackCount > 0) {
-        Promise.await(options.waitForCallbacksPromise);
-        if (context.callbackErrors[0]) {
-          throw createCallbackError(context.callbackErrors);
-        }
-      }
+      await waitForCallbacks(context, options);
     }
+    assertNotRollbackOnly(context);
 
-    Promise.await(session.commitTransaction());
+    await session.commitTransaction();
   } catch (e) {
-    Promise.await(session.abortTransaction());
+    await session.abortTransaction();
     throw e;
   } finally {
-    Promise.await(session.endSession());
+    await endSession(context);
   }
   return result;
 }
 
-function runWithRetry<R>(
+/**
+ * Runs fn with the session, but without a transaction, see configureTopology.
+ */
+async function runWithoutTransaction<R>(
   context: SessionContext,
-  fn: TransactionCallback<R>,
+  fn: Callback<R>,
   options: RunOptions,
-): R {
+): globalThis.Promise<R> {
   const { session } = context;
+
   let result;
   try {
-    Promise.await(
-      session.withTransaction(
-        (clientSession) => {
-          try {
-            result = fn(clientSession);
-          } finally {
-            if (options.waitForCallbacksPromise && context.callbackCount > 0) {
-              Promise.await(options.waitForCallbacksPromise);
-              if (context.callbackErrors[0]) {
-                throw createCallbackError(context.callbackErrors);
-              }
-            }
-          }
-          // withTransactionCallback must return promise, as per docs (3.6)
-          return Promise.resolve(result);
-        },
-        {
-          ...options.transactionOptions,
-          retryWrites: true,
-        },
-      ),
+    try {
+      result = await fn(session);
+    } finally {
+      await waitForCallbacks(context, options);
+    }
+    assertNotRollbackOnly(context);
+  } finally {
+    await endSession(context);
+  }
+  return result;
+}
+
+async function runWithRetry<R>(
+  context: SessionContext,
+  fn: Callback<R>,
+  options: RunOptions,
+): globalThis.Promise<R> {
+  const { session } = context;
+  let result;
+  let attemptStarted = false;
+  try {
+    await session.withTransaction(
+      async (clientSession) => {
+        // driver does not tell us why the callback is run again
+        if (attemptStarted) {
+          context.stats.attempt += 1;
+          emitTransactionEvent(context, 'retry', { phase: 'transaction' });
+        }
+        attemptStarted = true;
+
+        resetAttempt(context);
+        try {
+          result = await fn(clientSession);
+        } finally {
+          await waitForCallbacks(context, options);
+        }
+        assertNotRollbackOnly(context);
+      },
+      {
+        ...options.transactionOptions,
+        retryWrites: true,
+      },
     );
-  } catch (e) {
-    throw e;
   } finally {
-    Promise.await(session.endSession());
+    await endSession(context);
   }
   return result;
 }
 
-let defaultOptions: RunInTransactionOptions = {};
+async function runWithRetryPolicy<R>(
+  context: SessionContext,
+  fn: Callback<R>,
+  options: RunOptions,
+  policy: RetryPolicy,
+): globalThis.Promise<R> {
+  const { session } = context;
+  const startTime = Date.now();
+
+  async function retryAfter(error: unknown, phase: RetryPhase) {
+    const { attempt } = context.stats;
+    const delayMs = getRetryDelay(policy, error, phase, attempt, startTime);
+    // deadline covers all attempts, the next one would time out as well; dry run ends with an abort on purpose
+    if (
+      delayMs === undefined ||
+      error instanceof TransactionTimeoutError ||
+      error instanceof DryRunAbort
+    ) {
+      throw error;
+    }
+    context.stats.attempt += 1;
+    emitTransactionEvent(context, 'retry', { error, phase, delayMs });
+    policy.onRetry?.({ attempt: attempt + 1, phase, error, delayMs });
+    await sleep(delayMs);
+  }
 
-export function setDefaultOptions(options: RunInTransactionOptions) {
-  defaultOptions = options;
+  let result;
+  try {
+    transaction: for (;;) {
+      resetAttempt(context);
+      session.startTransaction(options.transactionOptions);
+      try {
+        try {
+          result = await fn(session);
+        } finally {
+          await waitForCallbacks(context, options);
+        }
+        assertNotRollbackOnly(context);
+      } catch (e) {
+        await session.abortTransaction();
+        await retryAfter(e, 'transaction');
+        continue;
+      }
+
+      for (;;) {
+        try {
+          await session.commitTransaction();
+          break transaction;
+        } catch (e) {
+          const isCommitRetry =
+            getRetryDelay(
+              policy,
+              e,
+              'commit',
+              context.stats.attempt,
+              startTime,
+            ) !== undefined;
+          await retryAfter(e, isCommitRetry ? 'commit' : 'transaction');
+          if (!isCommitRetry) {
+            continue transaction;
+          }
+        }
+      }
+    }
+  } finally {
+    await endSession(context);
+  }
+  return result;
 }
 
-export function getDefaultOptions(): RunInTransactionOptions {
-  return defaultOptions;
+/**
+ * Runs fn as a part of the already running transaction.
+ * If fn fails, the enclosing transaction (or nested scope) can no longer be committed, even if the error is caught.
+ */
+async function runJoined<R>(
+  context: SessionContext,
+  fn: Callback<R>,
+): globalThis.Promise<R> {
+  try {
+    return await fn(context.session);
+  } catch (e) {
+    const savepoint = getCurrentSavepoint(context);
+    if (savepoint) {
+      savepoint.rollbackOnly = true;
+    } else {
+      context.rollbackOnly = true;
+    }
+    throw e;
+  }
 }
 
-export function runInTransaction<R>(
-  fn: TransactionCallback<R>,
-  options: RunInTransactionOptions = defaultOptions,
-): R {
-  if (sessionVariable.get()) {
-    throw new Error('Nested transactions are not supported');
+/**
+ * Runs fn as a part of the already running transaction, but writes made by fn are undone when it fails.
+ */
+async function runNested<R>(
+  context: SessionContext,
+  fn: Callback<R>,
+): globalThis.Promise<R> {
+  const savepoint: Savepoint = {
+    undo: [],
+    rollbackOnly: false,
+    hooks: createHooks(),
+    changeSetLength: context.changeSet?.length ?? 0,
+    dryRun: context.dryRun && copyDryRunChanges(context.dryRun),
+  };
+  context.savepoints.push(savepoint);
+
+  let result: R;
+  try {
+    result = await fn(context.session);
+    if (savepoint.rollbackOnly) {
+      throw new RollbackOnlyError(
+        'Nested scope was marked as rollback-only by a failed inner scope.',
+      );
+    }
+  } catch (e) {
+    discardSavepoint(context, savepoint);
+    context.changeSet?.splice(savepoint.changeSetLength);
+    if (savepoint.dryRun) {
+      context.dryRun = savepoint.dryRun;
+    }
+    try {
+      await rollbackSavepoint(context.session, savepoint);
+    } catch (rollbackError) {
+      // writes of the nested scope are now in unknown state, outer transaction must not commit
+      context.rollbackOnly = true;
+    }
+    // nested scope is done, its commit hooks will never run
+    await runAbortHooks(savepoint.hooks, e);
+    throw e;
   }
 
-  const session = createSession(options.sessionOptions);
+  releaseSavepoint(context, savepoint);
+  return result;
+}
+
+function runStrategy<R>(
+  context: SessionContext,
+  fn: Callback<R>,
+  options: RunOptions,
+): globalThis.Promise<R> {
+  if (context.withoutTransaction) {
+    return runWithoutTransaction(context, fn, options);
+  }
+  if (typeof options.retry === 'object') {
+    return runWithRetryPolicy(context, fn, options, options.retry);
+  }
+  if (options.retry) {
+    return runWithRetry(context, fn, options);
+  }
+  return runWithoutRetry(context, fn, options);
+}
+
+async function runTransaction<R>(
+  context: SessionContext,
+  fn: Callback<R>,
+  options: RunOptions,
+): globalThis.Promise<R> {
+  emitTransactionEvent(context, 'start');
+
+  let result: R;
+  try {
+    result = await runStrategy(context, fn, options);
+  } catch (error) {
+    warnIfSlow(context, options.slowTransactionMs, options.callSite);
+    if (error instanceof DryRunAbort) {
+      emitTransactionEvent(context, 'end', { outcome: 'dryRun' });
+      await runFinallyHooks(context.hooks);
+      throw error;
+    }
+    emitTransactionEvent(context, 'abort', {
+      error,
+      journal: context.journal,
+    });
+    emitTransactionEvent(context, 'end', { error, outcome: 'aborted' });
+    await runAbortHooks(context.hooks, error);
+    throw error;
+  }
+
+  warnIfSlow(context, options.slowTransactionMs, options.callSite);
+  emitTransactionEvent(context, 'commit', { journal: context.journal });
+  emitTransactionEvent(context, 'end', { outcome: 'committed' });
+  await runCommitHooks(context.hooks, context.changeSet);
+  return result;
+}
+
+async function runNewTransaction<R>(
+  fn: Callback<R>,
+  options: RunInTransactionOptions,
+  dryRun = false,
+): globalThis.Promise<R> {
+  const callSite =
+    options.slowTransactionMs !== undefined ? captureCallSite() : undefined;
+  const client = getClient(options.driver);
+  const topology = getDetectedTopology(client);
+  // once the topology is known, the transaction starts synchronously (keeps the fiber of sync functions)
+  const withTransaction =
+    topology !== undefined
+      ? canStartTransactionOn(client, topology)
+      : await canStartTransaction(client);
+  const session = createSession(options);
 
   let resolver: () => void = () => {};
   const callbackPromise = options.waitForCallbacks
@@ -223,6 +577,14 @@ export function runInTransaction<R>(
       })
     : undefined;
 
+  const stats = createTransactionStats();
+  const journal = options.journal
+    ? createJournal(
+        stats.id,
+        typeof options.journal === 'object' ? options.journal : {},
+      )
+    : undefined;
+
   return sessionVariable.withValue(
     {
       session,
@@ -231,31 +593,241 @@ export function runInTransaction<R>(
         !!options.waitForCallbacks && !!options.catchCallbackErrors,
       resolveCallbacks: resolver,
       callbackErrors: [],
+      rollbackOnly: false,
+      savepoints: [],
+      hooks: createHooks(),
+      stats,
+      journal,
+      cursors: [],
+      maxDurationMs: options.maxDurationMs,
+      changeSet: options.changeSet ? [] : undefined,
+      deferUntilCommit: options.deferUntilCommit,
+      dryRun: dryRun ? {} : undefined,
+      withoutTransaction: !withTransaction,
     },
     function () {
-      const context = sessionVariable.get()!;
-      if (options.retry) {
-        return runWithRetry(context, fn, {
-          ...options,
-          waitForCallbacksPromise: callbackPromise,
-        });
-      }
-      return runWithoutRetry(context, fn, {
+      return runTransaction(sessionVariable.get()!, fn, {
         ...options,
         waitForCallbacksPromise: callbackPromise,
+        callSite,
       });
     },
   );
 }
 
-export async function runInTransactionAsync<R>(
+function run<R>(
+  fn: Callback<R>,
+  optionsOrProfile: RunInTransactionOptions | string,
+): globalThis.Promise<R> {
+  let options: RunInTransactionOptions;
+  try {
+    options = resolveOptions(optionsOrProfile);
+  } catch (e) {
+    return Promise.reject(e);
+  }
+  // session of runInSession is not joined, transaction starts on its own session
+  const context = getTransactionContext();
+  const { propagation } = options;
+
+  if (context && !propagation) {
+    return Promise.reject(
+      new Error(
+        'Nested transactions are not supported without the propagation option, ' +
+          "use 'required', 'requiresNew' or 'nested'.",
+      ),
+    );
+  }
+  if (
+    context &&
+    propagation !== 'requiresNew' &&
+    options.driver &&
+    getClient(options.driver) !== getSessionClient(context.session)
+  ) {
+    return Promise.reject(
+      new ClientMismatchError(
+        `Cannot join the running transaction with propagation '${propagation}', it was started on another client. Use 'requiresNew' propagation instead.`,
+      ),
+    );
+  }
+  if (context && propagation === 'required') {
+    return runJoined(context, fn);
+  }
+  if (context && propagation === 'nested') {
+    return runNested(context, fn);
+  }
+  return runNewTransaction(fn, options);
+}
+
+export function runInTransaction<R>(
+  fn: TransactionCallback<R>,
+  // options, or the name of a profile, see defineTransactionProfile
+  options: RunInTransactionOptions | string = getDefaultOptions(),
+): R {
+  return awaitSync('runInTransaction', () => run(fn, options));
+}
+
+export function runInTransactionAsync<R>(
   fn: TransactionCallbackAsync<R>,
-  options: RunInTransactionOptions = defaultOptions,
+  options: RunInTransactionOptions | string = getDefaultOptions(),
 ): globalThis.Promise<R> {
-  return runInTransaction((session) => Promise.await(fn(session)), options);
+  return run(fn, options);
+}
+
+/**
+ * Runs fn in a new transaction which is always aborted, even when a transaction is already running.
+ */
+async function runDryRun<R>(
+  fn: Callback<R>,
+  optionsOrProfile: RunInTransactionOptions | string,
+): globalThis.Promise<DryRunResult<R>> {
+  const options = resolveOptions(optionsOrProfile);
+  // nothing would be rolled back without a transaction
+  const client = getClient(options.driver);
+  const topology =
+    getDetectedTopology(client) ?? (await detectTopology(client));
+  if (topology === 'standalone') {
+    throw new TransactionsNotSupportedError(
+      'dryRunTransaction is not supported by a standalone MongoDB server, it needs a replica set.',
+    );
+  }
+  let dryRunResult: DryRunResult<R> | undefined;
+  try {
+    await runNewTransaction(
+      async (session) => {
+        // retried attempt starts counting again
+        const context = sessionVariable.get()!;
+        context.dryRun = {};
+        const result = await fn(session);
+        dryRunResult = { result, changes: context.dryRun };
+        throw new DryRunAbort();
+      },
+      options,
+      true,
+    );
+  } catch (e) {
+    if (!(e instanceof DryRunAbort)) {
+      throw e;
+    }
+  }
+  return dryRunResult!;
+}
+
+export function dryRunTransaction<R>(
+  fn: TransactionCallback<R>,
+  options: RunInTransactionOptions | string = getDefaultOptions(),
+): DryRunResult<R> {
+  return awaitSync('dryRunTransaction', () => runDryRun(fn, options));
+}
+
+export function dryRunTransactionAsync<R>(
+  fn: TransactionCallbackAsync<R>,
+  options: RunInTransactionOptions | string = getDefaultOptions(),
+): globalThis.Promise<DryRunResult<R>> {
+  return runDryRun(fn, options);
+}
+
+/**
+ * Binds a causally consistent session (without a transaction) to all collection operations inside fn.
+ * Inside a transaction or another session, fn simply runs in it.
+ */
+async function runWithSession<R>(
+  fn: Callback<R>,
+  sessionOptions: ClientSessionOptions,
+): globalThis.Promise<R> {
+  const context = sessionVariable.get();
+  if (context) {
+    return fn(context.session);
+  }
+
+  const session = getClient().startSession({
+    causalConsistency: true,
+    ...sessionOptions,
+  });
+  return sessionVariable.withValue(
+    {
+      session,
+      callbackCount: 0,
+      catchCallbackErrors: false,
+      resolveCallbacks: () => {},
+      callbackErrors: [],
+      rollbackOnly: false,
+      savepoints: [],
+      hooks: createHooks(),
+      stats: createTransactionStats(),
+      sessionOnly: true,
+      cursors: [],
+    },
+    async function () {
+      try {
+        return await fn(session);
+      } finally {
+        await endSession(sessionVariable.get()!);
+      }
+    },
+  );
+}
+
+export function runInSession<R>(
+  fn: TransactionCallback<R>,
+  sessionOptions: ClientSessionOptions = {},
+): R {
+  return awaitSync('runInSession', () => runWithSession(fn, sessionOptions));
+}
+
+export function runInSessionAsync<R>(
+  fn: TransactionCallbackAsync<R>,
+  sessionOptions: ClientSessionOptions = {},
+): globalThis.Promise<R> {
+  return runWithSession(fn, sessionOptions);
+}
+
+/**
+ * Whether collection operations get a session, i.e. inside runInSession or a transaction.
+ */
+export function isInSession(): boolean {
+  return !!sessionVariable.get();
+}
+
+/**
+ * Runs fn without the transaction context, e.g. for writes which must persist even if the transaction aborts.
+ * Collection methods called inside fn do not get the session and their callbacks are not tracked by the transaction.
+ * The context is back once fn returns.
+ */
+export function runOutsideTransaction<R>(fn: () => R): R {
+  return sessionVariable.withValue(undefined, fn);
+}
+
+export function runOutsideTransactionAsync<R>(
+  fn: () => globalThis.Promise<R>,
+): globalThis.Promise<R> {
+  return sessionVariable.withValue(undefined, fn);
+}
+
+/**
+ * Topology of the driver's MongoDB deployment (default driver when not passed), detected once per client.
+ */
+export function getTopology(
+  driver?: TransactionDriver,
+): globalThis.Promise<Topology> {
+  return detectTopology(getClient(driver));
 }
 
 export function isInTransaction(): boolean {
   const context = sessionVariable.get();
   return context?.session.inTransaction() ?? false;
 }
+
+/**
+ * Journal of the current transaction, undefined outside of a transaction or when it was started without the journal option.
+ */
+export function getTransactionJournal(): TransactionJournal | undefined {
+  return sessionVariable.get()?.journal;
+}
+
+/**
+ * Documents written so far by the current transaction, undefined outside of a transaction or when it was started
+ * without the changeSet option. Commit hooks get the final change set as their argument.
+ */
+export function getChangeSet(): ChangeSet | undefined {
+  return sessionVariable.get()?.changeSet;
+}
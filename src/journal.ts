@@ -0,0 +1,214 @@
+import { SessionContext } from './types';
+
+/**
+ * Opt-in record of the collection operations issued in a transaction, see RunInTransactionOptions.journal.
+ * Arguments and results are copied into plain JSON values when recorded, redaction is applied to them on export.
+ */
+
+export interface JournalOptions {
+  // field names (or the last segment of dotted paths, e.g. 'services.password') replaced by '[REDACTED]' on export
+  redactFields?: string[];
+  // entries above the limit are counted, but not recorded (default 1000)
+  maxEntries?: number;
+}
+
+export interface JournalEntry {
+  collection: string;
+  method: string;
+  // filter, update, document(s), pipeline... without options and callback
+  args: unknown[];
+  attempt: number;
+  // time since the transaction started
+  offsetMs: number;
+  // set once the operation completes
+  durationMs?: number;
+  result?: unknown;
+  error?: { name?: string; message?: string; code?: unknown };
+}
+
+export interface TransactionJournal {
+  transactionId: number;
+  entries: JournalEntry[];
+  maxEntries: number;
+  // number of operations which were not recorded because of maxEntries
+  skipped: number;
+  // redacted copy of the journal, used by JSON.stringify
+  toJSON(): object;
+}
+
+const DEFAULT_MAX_ENTRIES = 1000;
+const MAX_DEPTH = 20;
+const REDACTED = '[REDACTED]';
+
+function copyValue(value: any, depth = 0): unknown {
+  if (value === null || value === undefined) {
+    return value;
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (typeof value === 'function' || typeof value === 'symbol') {
+    return undefined;
+  }
+  if (typeof value !== 'object') {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[Truncated]';
+  }
+  if (value instanceof Date) {
+    return { $date: value.toISOString() };
+  }
+  if (value instanceof RegExp) {
+    return { $regex: value.source, $options: value.flags };
+  }
+  if (typeof value.toHexString === 'function') {
+    return { $oid: value.toHexString() };
+  }
+  // cursors, streams and such are not worth recording
+  if (typeof value.toArray === 'function' || typeof value.on === 'function') {
+    return undefined;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => copyValue(item, depth + 1));
+  }
+  const copy: Record<string, unknown> = {};
+  Object.keys(value).forEach((key) => {
+    const item = copyValue(value[key], depth + 1);
+    if (item !== undefined) {
+      copy[key] = item;
+    }
+  });
+  return copy;
+}
+
+function redact(value: unknown, fields: Set<string>): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, fields));
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  const copy: Record<string, unknown> = {};
+  Object.entries(value).forEach(([key, item]) => {
+    const lastSegment = key.slice(key.lastIndexOf('.') + 1);
+    copy[key] =
+      fields.has(key) || fields.has(lastSegment)
+        ? REDACTED
+        : redact(item, fields);
+  });
+  return copy;
+}
+
+function redactEntry(entry: JournalEntry, fields: Set<string>): JournalEntry {
+  const copy = { ...entry, args: redact(entry.args, fields) as unknown[] };
+  if ('result' in entry) {
+    copy.result = redact(entry.result, fields);
+  }
+  return copy;
+}
+
+function copyError(error: any): JournalEntry['error'] {
+  return {
+    name: error?.name,
+    message: error?.message ?? String(error),
+    code: copyValue(error?.code),
+  };
+}
+
+export function createJournal(
+  transactionId: number,
+  options: JournalOptions,
+): TransactionJournal {
+  const fields = new Set(options.redactFields ?? []);
+  return {
+    transactionId,
+    entries: [],
+    maxEntries: options.maxEntries ?? DEFAULT_MAX_ENTRIES,
+    skipped: 0,
+    toJSON() {
+      return {
+        transactionId: this.transactionId,
+        skipped: this.skipped,
+        entries: this.entries.map((entry) => redactEntry(entry, fields)),
+      };
+    },
+  };
+}
+
+/**
+ * Records the operation and returns its result untouched. Promise results are recorded when they settle, with
+ * callback drivers results are taken from the callback (the last argument).
+ * The first paramCount arguments are recorded, options and callback are not.
+ */
+export function recordOperation<R>(
+  context: SessionContext,
+  collectionName: string,
+  method: string,
+  args: unknown[],
+  paramCount: number,
+  operation: (args: unknown[]) => R,
+): R {
+  const { journal } = context;
+  if (!journal) {
+    return operation(args);
+  }
+
+  if (journal.entries.length >= journal.maxEntries) {
+    journal.skipped += 1;
+    return operation(args);
+  }
+
+  const startedAt = Date.now();
+  const entry: JournalEntry = {
+    collection: collectionName,
+    method,
+    args: args.slice(0, paramCount).map((arg) => copyValue(arg)),
+    attempt: context.stats.attempt,
+    offsetMs: startedAt - context.stats.startedAt,
+  };
+  journal.entries.push(entry);
+
+  function complete(result: unknown, error?: unknown) {
+    entry.durationMs = Date.now() - startedAt;
+    if (error !== undefined) {
+      entry.error = copyError(error);
+    } else {
+      entry.result = copyValue(result);
+    }
+  }
+
+  const callback = args[args.length - 1];
+  if (typeof callback === 'function') {
+    try {
+      return operation([
+        ...args.slice(0, -1),
+        function (this: unknown, error: unknown, result: unknown) {
+          complete(result, error ?? undefined);
+          return callback.call(this, error, result);
+        },
+      ]);
+    } catch (error) {
+      complete(undefined, error);
+      throw error;
+    }
+  }
+
+  let result: R;
+  try {
+    result = operation(args);
+  } catch (error) {
+    complete(undefined, error);
+    throw error;
+  }
+
+  if (typeof (result as any)?.then === 'function') {
+    (result as any).then(
+      (value: unknown) => complete(value),
+      (error: unknown) => complete(undefined, error),
+    );
+  } else {
+    complete(result);
+  }
+  return result;
+}
@@ -0,0 +1,79 @@
+import { Mongo, MongoInternals } from 'meteor/mongo';
+import { originalMethods } from './rawCollection';
+import { awaitSync, getTransactionContext } from './sessionVariable';
+
+/**
+ * Reading documents does not lock them, so two transactions can read the same document and both decide based on it
+ * (write skew), with the conflict surfacing only on the later write. Writing the documents first takes the write lock:
+ * a concurrent transaction writing (or locking) them fails with a WriteConflict right away.
+ *
+ * The lock is a write of a unique token into the lock field which is then removed, both inside the transaction, so
+ * documents are committed unchanged. Documents which already have the lock field are rejected, its value would be
+ * removed. Lock writes use the driver's methods directly and are not journaled, captured in the change set nor
+ * counted by dry runs, but both are in the oplog, so oplog observers see the locked documents as changed.
+ */
+
+export interface LockOptions {
+  // default '_lock'
+  lockField?: string;
+}
+
+export async function lockForUpdateAsync<T extends { _id?: unknown }>(
+  collection: Mongo.Collection<T>,
+  selector: Mongo.Selector<T> | string,
+  { lockField = '_lock' }: LockOptions = {},
+): globalThis.Promise<T[]> {
+  const context = getTransactionContext();
+  if (!context) {
+    throw new Error('lockForUpdate can only be called inside a transaction.');
+  }
+
+  const { session } = context;
+  const raw = collection.rawCollection();
+  const filter = typeof selector === 'string' ? { _id: selector } : selector;
+  const token = new MongoInternals.NpmModules.mongodb.module.ObjectId();
+
+  const withLockField = await originalMethods.findOne.call(
+    raw,
+    { $and: [filter, { [lockField]: { $exists: true } }] },
+    { session, projection: { _id: 1 } },
+  );
+  if (withLockField) {
+    throw new Error(
+      `lockForUpdate cannot lock document ${withLockField._id} of collection ${raw.collectionName}, ` +
+        `it already has the lock field ${lockField}. Use the lockField option to set another one.`,
+    );
+  }
+
+  await originalMethods.updateMany.call(
+    raw,
+    filter,
+    { $set: { [lockField]: token } },
+    { session },
+  );
+  // documents locked by this call, read before the token is removed
+  const locked = await originalMethods.find
+    .call(
+      raw,
+      { [lockField]: token },
+      { session, projection: { [lockField]: 0 } },
+    )
+    .toArray();
+  await originalMethods.updateMany.call(
+    raw,
+    { [lockField]: token },
+    { $unset: { [lockField]: '' } },
+    { session },
+  );
+  return locked;
+}
+
+export function lockForUpdate<T extends { _id?: unknown }>(
+  collection: Mongo.Collection<T>,
+  selector: Mongo.Selector<T> | string,
+  options?: LockOptions,
+): T[] {
+  return awaitSync('lockForUpdate', () =>
+    lockForUpdateAsync(collection, selector, options),
+  );
+}
@@ -0,0 +1,155 @@
+import { Promise } from 'meteor/promise';
+import {
+  CallbackError,
+  ClientMismatchError,
+  CursorExpiredError,
+  IllegalOperationError,
+  RollbackOnlyError,
+  TransactionsNotSupportedError,
+  TransactionTimeoutError,
+  VersionConflictError,
+} from './errors';
+import { runInTransactionAsync } from './index';
+import { getDefaultOptions, RunInTransactionOptions } from './options';
+import { hasErrorLabel } from './retry';
+import { isFibersEnabled, sessionVariable } from './sessionVariable';
+
+export type TransactionalMethod = (
+  this: Meteor.MethodThisType,
+  ...args: any[]
+) => any;
+
+export interface TransactionalMethodDefinition {
+  run: TransactionalMethod;
+  // false runs the method without a transaction, options (or a profile name) replace the ones passed to transactionalMethods
+  transaction?: boolean | RunInTransactionOptions | string;
+}
+
+export interface TransactionalMethodsOptions {
+  // defaults to getDefaultOptions(), can be the name of a profile, see defineTransactionProfile
+  transactionOptions?: RunInTransactionOptions | string;
+  // converts errors thrown from the transaction into errors sent to the client
+  convertError?: (error: unknown, methodName: string) => unknown;
+}
+
+const FAILED_ERRORS = [
+  ClientMismatchError,
+  CursorExpiredError,
+  IllegalOperationError,
+  TransactionsNotSupportedError,
+  TransactionTimeoutError,
+];
+
+/**
+ * Errors of the package (and write conflicts) would end up as "Internal server error", so they get their own error
+ * codes. Everything else is returned as is and Meteor handles it as usual, e.g. Match.Error is sent as a 400 and
+ * errors with sanitizedError as that error.
+ */
+export function toMeteorError(error: unknown, methodName: string): unknown {
+  if (
+    error instanceof Meteor.Error ||
+    (error as any)?.errorType === 'Match.Error' ||
+    (error as any)?.sanitizedError
+  ) {
+    return error;
+  }
+
+  // WriteConflict
+  if (
+    hasErrorLabel(error, 'TransientTransactionError') ||
+    (error as any)?.code === 112 ||
+    error instanceof VersionConflictError
+  ) {
+    Meteor._debug(`Exception in transactional method ${methodName}:`, error);
+    return new Meteor.Error(
+      'transaction-conflict',
+      'Transaction was aborted because of a concurrent write, please try again.',
+    );
+  }
+  if (error instanceof RollbackOnlyError || error instanceof CallbackError) {
+    Meteor._debug(`Exception in transactional method ${methodName}:`, error);
+    return new Meteor.Error('transaction-aborted', error.message);
+  }
+  if (FAILED_ERRORS.some((errorClass) => error instanceof errorClass)) {
+    Meteor._debug(`Exception in transactional method ${methodName}:`, error);
+    return new Meteor.Error('transaction-failed', 'Transaction failed.');
+  }
+  return error;
+}
+
+function wrapMethod(
+  name: string,
+  run: TransactionalMethod,
+  transaction: boolean | RunInTransactionOptions | string | undefined,
+  options: TransactionalMethodsOptions,
+): TransactionalMethod {
+  if (transaction === false) {
+    return run;
+  }
+
+  const convertError = options.convertError ?? toMeteorError;
+
+  return function (this: Meteor.MethodThisType, ...args: any[]) {
+    const invocation = this;
+    const transactionOptions =
+      typeof transaction === 'object' || typeof transaction === 'string'
+        ? transaction
+        : (options.transactionOptions ?? getDefaultOptions());
+
+    const promise = runInTransactionAsync(async () => {
+      const context = sessionVariable.get()!;
+      // joined transaction keeps the method it was started from
+      const previous = context.method;
+      context.method = {
+        name,
+        userId: invocation.userId,
+        connection: invocation.connection,
+        invocation,
+      };
+      try {
+        return await run.apply(invocation, args);
+      } finally {
+        context.method = previous;
+      }
+    }, transactionOptions).catch((error) => {
+      throw convertError(error, name);
+    });
+
+    return isFibersEnabled ? Promise.await(promise) : promise;
+  };
+}
+
+/**
+ * Method mixin, e.g. for mdg:validated-method.
+ * Wraps `run` in a transaction, `transaction` property of the method options works as in transactionalMethods.
+ */
+export function transactionMixin<
+  T extends TransactionalMethodDefinition & { name: string },
+>(methodOptions: T): T {
+  return {
+    ...methodOptions,
+    run: wrapMethod(
+      methodOptions.name,
+      methodOptions.run,
+      methodOptions.transaction,
+      {},
+    ),
+  };
+}
+
+/**
+ * Same as Meteor.methods, but the body of each method runs inside a transaction.
+ */
+export function transactionalMethods(
+  methods: Record<string, TransactionalMethod | TransactionalMethodDefinition>,
+  options: TransactionalMethodsOptions = {},
+) {
+  const wrapped: Record<string, TransactionalMethod> = {};
+  Object.entries(methods).forEach(([name, definition]) => {
+    wrapped[name] =
+      typeof definition === 'function'
+        ? wrapMethod(name, definition, true, options)
+        : wrapMethod(name, definition.run, definition.transaction, options);
+  });
+  Meteor.methods(wrapped);
+}
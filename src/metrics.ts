@@ -0,0 +1,192 @@
+import { onTransactionEvent, TransactionEvent } from './events';
+
+/**
+ * Aggregates transaction events into counters and histograms which can be rendered in Prometheus text format.
+ * Mounting the route is left to the app, e.g.:
+ *
+ * WebApp.connectHandlers.use('/metrics', (req, res) => {
+ *   res.setHeader('Content-Type', 'text/plain; version=0.0.4');
+ *   res.end(metrics.render());
+ * });
+ */
+
+export interface TransactionMetricsOptions {
+  // prefix of all metric names (default 'mongo_transactions')
+  prefix?: string;
+  // upper bounds of duration histogram buckets in seconds
+  durationBuckets?: number[];
+  // upper bounds of operation count histogram buckets
+  operationBuckets?: number[];
+}
+
+export interface TransactionMetrics {
+  render(): string;
+  reset(): void;
+  // stops listening to transaction events
+  stop(): void;
+}
+
+type Outcome = 'committed' | 'aborted';
+
+interface Histogram {
+  buckets: number[];
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+const DEFAULT_DURATION_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60,
+];
+
+const DEFAULT_OPERATION_BUCKETS = [1, 2, 5, 10, 25, 50, 100, 250, 500, 1000];
+
+const OUTCOMES: Outcome[] = ['committed', 'aborted'];
+
+function createHistogram(buckets: number[]): Histogram {
+  return {
+    buckets,
+    counts: buckets.map(() => 0),
+    sum: 0,
+    count: 0,
+  };
+}
+
+function observe(histogram: Histogram, value: number) {
+  histogram.buckets.forEach((bound, index) => {
+    if (value <= bound) {
+      histogram.counts[index] += 1;
+    }
+  });
+  histogram.sum += value;
+  histogram.count += 1;
+}
+
+function renderHistogram(
+  name: string,
+  help: string,
+  histograms: Record<Outcome, Histogram>,
+): string[] {
+  const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} histogram`];
+  OUTCOMES.forEach((outcome) => {
+    const histogram = histograms[outcome];
+    histogram.buckets.forEach((bound, index) => {
+      lines.push(
+        `${name}_bucket{outcome="${outcome}",le="${bound}"} ${histogram.counts[index]}`,
+      );
+    });
+    lines.push(
+      `${name}_bucket{outcome="${outcome}",le="+Inf"} ${histogram.count}`,
+      `${name}_sum{outcome="${outcome}"} ${histogram.sum}`,
+      `${name}_count{outcome="${outcome}"} ${histogram.count}`,
+    );
+  });
+  return lines;
+}
+
+function renderCounter(name: string, help: string, value: number): string[] {
+  return [
+    `# HELP ${name} ${help}`,
+    `# TYPE ${name} counter`,
+    `${name} ${value}`,
+  ];
+}
+
+export function createTransactionMetrics(
+  options: TransactionMetricsOptions = {},
+): TransactionMetrics {
+  const prefix = options.prefix ?? 'mongo_transactions';
+  const durationBuckets = options.durationBuckets ?? DEFAULT_DURATION_BUCKETS;
+  const operationBuckets =
+    options.operationBuckets ?? DEFAULT_OPERATION_BUCKETS;
+
+  let started: number;
+  let committed: number;
+  let aborted: number;
+  let retries: number;
+  let durations: Record<Outcome, Histogram>;
+  let operations: Record<Outcome, Histogram>;
+
+  function reset() {
+    started = 0;
+    committed = 0;
+    aborted = 0;
+    retries = 0;
+    durations = {
+      committed: createHistogram(durationBuckets),
+      aborted: createHistogram(durationBuckets),
+    };
+    operations = {
+      committed: createHistogram(operationBuckets),
+      aborted: createHistogram(operationBuckets),
+    };
+  }
+  reset();
+
+  const stop = onTransactionEvent((event: TransactionEvent) => {
+    // dry runs are always aborted, they would be reported as aborts, nothing is committed without a transaction
+    if (event.dryRun || event.withoutTransaction) {
+      return;
+    }
+    switch (event.type) {
+      case 'start':
+        started += 1;
+        break;
+      case 'commit':
+        committed += 1;
+        break;
+      case 'abort':
+        aborted += 1;
+        break;
+      case 'retry':
+        retries += 1;
+        break;
+      case 'end': {
+        const outcome = event.outcome ?? 'aborted';
+        observe(durations[outcome], event.durationMs / 1000);
+        observe(operations[outcome], event.operationCount);
+        break;
+      }
+    }
+  });
+
+  return {
+    render() {
+      return [
+        ...renderCounter(
+          `${prefix}_started_total`,
+          'Number of started transactions.',
+          started,
+        ),
+        ...renderCounter(
+          `${prefix}_committed_total`,
+          'Number of committed transactions.',
+          committed,
+        ),
+        ...renderCounter(
+          `${prefix}_aborted_total`,
+          'Number of aborted transactions.',
+          aborted,
+        ),
+        ...renderCounter(
+          `${prefix}_retries_total`,
+          'Number of transaction retries.',
+          retries,
+        ),
+        ...renderHistogram(
+          `${prefix}_duration_seconds`,
+          'Duration of transactions in seconds.',
+          durations,
+        ),
+        ...renderHistogram(
+          `${prefix}_operations`,
+          'Number of collection operations issued in a transaction.',
+          operations,
+        ),
+        '',
+      ].join('\n');
+    },
+    reset,
+    stop,
+  };
+}
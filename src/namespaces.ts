@@ -0,0 +1,181 @@
+import { Mongo, MongoInternals } from 'meteor/mongo';
+import type { Db, IndexDescription } from 'mongodb';
+import { sessionVariable } from './sessionVariable';
+
+/**
+ * Older MongoDB servers reject writes to a collection which does not exist yet inside a transaction
+ * ("Cannot create namespace ... in multi-document transaction").
+ * Every Mongo.Collection opened through a RemoteCollectionDriver is tracked, so that the package can create
+ * the collections (and declared indexes) upfront, without the session.
+ */
+
+// - 'off' (default) - nothing is created by the package
+// - 'startup' - tracked collections are created on Meteor.startup, collections opened later right away
+// - 'lazy' - collection is created before the first write to it inside a transaction
+export type NamespaceMode = 'off' | 'startup' | 'lazy';
+
+export interface NamespaceOptions {
+  mode?: NamespaceMode;
+  // create indexes declared with declareCollection together with the collection (default true)
+  createIndexes?: boolean;
+}
+
+interface TrackedCollection {
+  name: string;
+  getDb: () => Db;
+  indexes: IndexDescription[];
+}
+
+const tracked = new Map<string, TrackedCollection>();
+const ensured = new Map<string, globalThis.Promise<void>>();
+// keys of the collections which were created, checked synchronously before writes
+const created = new Set<string>();
+
+let options: Required<NamespaceOptions> = {
+  mode: 'off',
+  createIndexes: true,
+};
+let started = false;
+
+function getKey(dbName: string, name: string) {
+  return `${dbName}.${name}`;
+}
+
+function track(name: string, getDb: () => Db): TrackedCollection {
+  const key = getKey(getDb().databaseName, name);
+  let collection = tracked.get(key);
+  if (!collection) {
+    collection = { name, getDb, indexes: [] };
+    tracked.set(key, collection);
+    if (options.mode === 'startup' && started) {
+      ensureInBackground(collection);
+    }
+  }
+  return collection;
+}
+
+async function createNamespace(collection: TrackedCollection) {
+  const db = collection.getDb();
+  try {
+    await db.createCollection(collection.name);
+  } catch (error) {
+    // NamespaceExists
+    if ((error as any)?.code !== 48) {
+      throw error;
+    }
+  }
+  if (options.createIndexes && collection.indexes.length > 0) {
+    await db.collection(collection.name).createIndexes(collection.indexes);
+  }
+}
+
+/**
+ * Creation runs outside the session, collection is created only once unless it fails.
+ */
+function ensureNamespace(
+  collection: TrackedCollection,
+): globalThis.Promise<void> {
+  const key = getKey(collection.getDb().databaseName, collection.name);
+  let promise = ensured.get(key);
+  if (!promise) {
+    promise = sessionVariable
+      .withValue(undefined, () => createNamespace(collection))
+      .then(() => {
+        created.add(key);
+      })
+      .catch((error) => {
+        // try again next time
+        ensured.delete(key);
+        throw error;
+      });
+    ensured.set(key, promise);
+  }
+  return promise;
+}
+
+function ensureInBackground(collection: TrackedCollection) {
+  ensureNamespace(collection).catch((error) => {
+    Meteor._debug(
+      `Exception in creating collection ${collection.name}:`,
+      error,
+    );
+  });
+}
+
+/**
+ * Tracks collections opened from now on. Called once, when the package is loaded.
+ */
+export function trackCollections() {
+  const { RemoteCollectionDriver } = MongoInternals;
+  const originalOpen = RemoteCollectionDriver.prototype.open;
+  RemoteCollectionDriver.prototype.open = function (name: string, ...args) {
+    const result = originalOpen.call(this, name, ...args);
+    if (name) {
+      track(name, () => this.mongo.db);
+    }
+    return result;
+  };
+
+  Meteor.startup(() => {
+    started = true;
+    if (options.mode === 'startup') {
+      tracked.forEach(ensureInBackground);
+    }
+  });
+}
+
+export function configureNamespaces(namespaceOptions: NamespaceOptions) {
+  options = { ...options, ...namespaceOptions };
+  if (options.mode === 'startup' && started) {
+    tracked.forEach(ensureInBackground);
+  }
+}
+
+/**
+ * Tracks the collection (useful for collections opened before the package was loaded) and declares its indexes.
+ */
+export function declareCollection(
+  collection: Mongo.Collection<any>,
+  declaration: { indexes?: IndexDescription[] } = {},
+) {
+  const db = collection.rawDatabase() as Db;
+  const { collectionName } = collection.rawCollection();
+  const trackedCollection = track(collectionName, () => db);
+
+  if (declaration.indexes?.length) {
+    trackedCollection.indexes.push(...declaration.indexes);
+    // indexes are created the next time the collection is ensured
+    const key = getKey(db.databaseName, collectionName);
+    ensured.delete(key);
+    created.delete(key);
+    if (options.mode === 'startup' && started) {
+      ensureInBackground(trackedCollection);
+    }
+  }
+}
+
+/**
+ * Creates all tracked collections and their declared indexes regardless of the mode.
+ */
+export async function ensureNamespaces(): globalThis.Promise<void> {
+  await Promise.all(Array.from(tracked.values()).map(ensureNamespace));
+}
+
+/**
+ * In lazy mode, returns the promise which resolves when the tracked collection is created.
+ * Returns undefined when there is nothing to wait for.
+ */
+export function ensureNamespaceBeforeWrite(rawCollection: {
+  dbName: string;
+  collectionName: string;
+}): globalThis.Promise<void> | undefined {
+  if (options.mode !== 'lazy') {
+    return undefined;
+  }
+  const key = getKey(rawCollection.dbName, rawCollection.collectionName);
+  const collection = tracked.get(key);
+  if (!collection || created.has(key)) {
+    return undefined;
+  }
+  return ensureNamespace(collection);
+}
@@ -0,0 +1,111 @@
+import type {
+  ClientSessionOptions,
+  MongoClient,
+  TransactionOptions,
+} from 'mongodb';
+import type { JournalOptions } from './journal';
+import type { RetryPolicy } from './retry';
+
+/**
+ * MongoInternals.RemoteCollectionDriver, or anything else with the same mongo connection.
+ */
+export type TransactionDriver = {
+  mongo: { client: MongoClient };
+};
+
+export interface RunInTransactionOptions {
+  sessionOptions?: ClientSessionOptions;
+  transactionOptions?: TransactionOptions;
+  // when true, using session.withTransaction which retries transaction callback or commit operation (whichever failed)
+  // see: https://mongodb.github.io/node-mongodb-native/3.6/api/ClientSession.html#withTransaction
+  // with RetryPolicy object, retries are done by the package according to the policy
+  retry?: boolean | RetryPolicy;
+
+  // Should the runInTransaction wait for all async callbacks, for example Meteor.insert({}, callback);
+  // Might be useful if cache is used.
+  waitForCallbacks?: boolean;
+  // Whether runInTransaction should catch async functions errors.
+  // True value only makes sense if waitForCallbacks is true.
+  // If there are any errors, runInTransaction will throw an error.
+  catchCallbackErrors?: boolean;
+
+  // What to do when runInTransaction is called while another transaction is already running, it throws by default:
+  // - 'required' - join the running transaction
+  // - 'requiresNew' - start an independent transaction on a fresh session
+  // - 'nested' - join the running transaction, but roll back only the writes of this scope on error
+  // Without a running transaction, all of them start a new one.
+  propagation?: Propagation;
+
+  // records every collection operation of the transaction, see getTransactionJournal
+  journal?: boolean | JournalOptions;
+
+  // driver whose client runs the transaction, for collections created with a custom _driver (default driver otherwise)
+  driver?: TransactionDriver;
+
+  // collection operations are rejected and the transaction aborts with TransactionTimeoutError after this time
+  maxDurationMs?: number;
+  // transactions running longer are logged with the call site of runInTransaction
+  slowTransactionMs?: number;
+
+  // records before and after images of written documents, see getChangeSet
+  changeSet?: boolean;
+
+  // Meteor.defer and Meteor.setTimeout called in the transaction are scheduled after commit, dropped on abort
+  deferUntilCommit?: boolean;
+}
+
+export type Propagation = 'required' | 'requiresNew' | 'nested';
+
+const PROPAGATIONS = ['required', 'requiresNew', 'nested'];
+
+function assertPositive(source: string, option: string, value: unknown) {
+  if (value !== undefined && !(typeof value === 'number' && value > 0)) {
+    throw new Error(`${source}: ${option} must be a positive number.`);
+  }
+}
+
+/**
+ * Rejects options which cannot work together. Source names the profile (or the options object) in the errors.
+ */
+export function validateOptions(
+  source: string,
+  options: RunInTransactionOptions,
+) {
+  if (options.catchCallbackErrors && !options.waitForCallbacks) {
+    throw new Error(
+      `${source}: catchCallbackErrors requires waitForCallbacks.`,
+    );
+  }
+  if (
+    options.propagation !== undefined &&
+    !PROPAGATIONS.includes(options.propagation)
+  ) {
+    throw new Error(`${source}: unknown propagation '${options.propagation}'.`);
+  }
+  assertPositive(source, 'maxDurationMs', options.maxDurationMs);
+  assertPositive(source, 'slowTransactionMs', options.slowTransactionMs);
+  if (
+    options.maxDurationMs !== undefined &&
+    options.slowTransactionMs !== undefined &&
+    options.slowTransactionMs >= options.maxDurationMs
+  ) {
+    throw new Error(
+      `${source}: slowTransactionMs must be lower than maxDurationMs, ` +
+        'the transaction is aborted before it is reported as slow.',
+    );
+  }
+}
+
+let defaultOptions: RunInTransactionOptions = {};
+
+/**
+ * Invalid options are rejected right away, not by every transaction using them.
+ */
+export function setDefaultOptions(options: RunInTransactionOptions) {
+  validateOptions('Default transaction options', options);
+  defaultOptions = options;
+}
+
+export function getDefaultOptions(): RunInTransactionOptions {
+  return defaultOptions;
+}
@@ -0,0 +1,322 @@
+import { MongoInternals } from 'meteor/mongo';
+import type { Collection, ObjectId } from 'mongodb';
+import { onCommit } from './hooks';
+import {
+  awaitSync,
+  getTransactionContext,
+  sessionVariable,
+} from './sessionVariable';
+
+/**
+ * Transactional outbox.
+ *
+ * Events are inserted into the outbox collection through the patched collection methods, so inside a transaction
+ * they are committed or rolled back together with the rest of the writes.
+ * Dispatcher then polls the collection and delivers each event to the registered handlers at least once.
+ */
+
+export type OutboxEventStatus = 'pending' | 'processing' | 'done' | 'failed';
+
+export interface OutboxEvent<P = unknown> {
+  _id: ObjectId;
+  type: string;
+  payload: P;
+  status: OutboxEventStatus;
+  createdAt: Date;
+  // number of delivery attempts so far
+  attempts: number;
+  // while processing, other dispatchers won't claim the event until this time
+  lockedUntil?: Date;
+  processedAt?: Date;
+  lastError?: string;
+}
+
+export type OutboxEventHandler<P = any> = (
+  event: OutboxEvent<P>,
+) => unknown | globalThis.Promise<unknown>;
+
+export interface OutboxOptions {
+  collectionName?: string;
+}
+
+export interface OutboxDispatcherOptions {
+  // how often the outbox collection is polled
+  pollIntervalMs?: number;
+  // maximum number of events delivered in one poll
+  batchSize?: number;
+  // event which is not done within this time is considered abandoned (e.g. server crashed) and is delivered again
+  lockTimeoutMs?: number;
+  // after this many failed deliveries the event is marked as failed and not delivered anymore
+  maxAttempts?: number;
+}
+
+export interface OutboxDispatcher {
+  stop(): void;
+}
+
+const DEFAULT_COLLECTION_NAME = 'transactions_outbox';
+
+const DEFAULT_DISPATCHER_OPTIONS: Required<OutboxDispatcherOptions> = {
+  pollIntervalMs: 1000,
+  batchSize: 50,
+  lockTimeoutMs: 60 * 1000,
+  maxAttempts: 10,
+};
+
+let collectionName = DEFAULT_COLLECTION_NAME;
+let collectionCreated: globalThis.Promise<void> | undefined;
+
+const handlers = new Map<string, OutboxEventHandler[]>();
+const dispatchers = new Set<{ wake(): void }>();
+
+export function configureOutbox(options: OutboxOptions) {
+  if (options.collectionName) {
+    collectionName = options.collectionName;
+    collectionCreated = undefined;
+  }
+}
+
+function getOutboxCollection(): Collection<OutboxEvent> {
+  return MongoInternals.defaultRemoteCollectionDriver().mongo.db.collection(
+    collectionName,
+  );
+}
+
+/**
+ * Collection cannot be created inside a multi-document transaction, so we create it upfront, without the session.
+ */
+function ensureOutboxCollection(): globalThis.Promise<void> {
+  if (!collectionCreated) {
+    const { db } = MongoInternals.defaultRemoteCollectionDriver().mongo;
+    collectionCreated = sessionVariable
+      .withValue(undefined, async () => {
+        try {
+          await db.createCollection(collectionName);
+        } catch (error) {
+          // NamespaceExists
+          if ((error as any)?.code !== 48) {
+            throw error;
+          }
+        }
+        await db
+          .collection(collectionName)
+          .createIndex({ status: 1, lockedUntil: 1, createdAt: 1 });
+      })
+      .catch((error) => {
+        // try again next time
+        collectionCreated = undefined;
+        throw error;
+      });
+  }
+  return collectionCreated;
+}
+
+export async function enqueueEventAsync<P>(
+  type: string,
+  payload: P,
+): globalThis.Promise<ObjectId> {
+  await ensureOutboxCollection();
+
+  const { insertedId } = await getOutboxCollection().insertOne({
+    type,
+    payload,
+    status: 'pending',
+    createdAt: new Date(),
+    attempts: 0,
+  } as OutboxEvent<P>);
+
+  // deliver as soon as the event is visible to the dispatcher
+  if (getTransactionContext()) {
+    onCommit(wakeDispatchers);
+  } else {
+    wakeDispatchers();
+  }
+  return insertedId;
+}
+
+export function enqueueEvent<P>(type: string, payload: P): ObjectId {
+  return awaitSync('enqueueEvent', () => enqueueEventAsync(type, payload));
+}
+
+/**
+ * Returns the function which unregisters the handler.
+ */
+export function registerEventHandler<P = any>(
+  type: string,
+  handler: OutboxEventHandler<P>,
+): () => void {
+  const typeHandlers = handlers.get(type) ?? [];
+  typeHandlers.push(handler);
+  handlers.set(type, typeHandlers);
+
+  return () => {
+    const index = typeHandlers.indexOf(handler);
+    if (index !== -1) {
+      typeHandlers.splice(index, 1);
+    }
+  };
+}
+
+function wakeDispatchers() {
+  dispatchers.forEach((dispatcher) => dispatcher.wake());
+}
+
+/**
+ * Drivers before 6 return the whole result of findOneAndUpdate, driver 6 returns the document itself.
+ */
+function getModifiedDocument(result: any): OutboxEvent | null {
+  if (result && 'ok' in result && 'value' in result) {
+    return result.value;
+  }
+  return result ?? null;
+}
+
+async function claimEvent(
+  collection: Collection<OutboxEvent>,
+  lockTimeoutMs: number,
+  excludeIds: ObjectId[],
+): globalThis.Promise<OutboxEvent | null> {
+  const now = new Date();
+  const result = await collection.findOneAndUpdate(
+    {
+      _id: { $nin: excludeIds },
+      $or: [
+        { status: 'pending' },
+        { status: 'processing', lockedUntil: { $lt: now } },
+      ],
+    },
+    {
+      $set: {
+        status: 'processing',
+        lockedUntil: new Date(now.getTime() + lockTimeoutMs),
+      },
+      $inc: { attempts: 1 },
+    },
+    { sort: { createdAt: 1 }, returnDocument: 'after' },
+  );
+  return getModifiedDocument(result);
+}
+
+async function deliverEvent(
+  collection: Collection<OutboxEvent>,
+  event: OutboxEvent,
+  maxAttempts: number,
+) {
+  try {
+    for (const handler of [...(handlers.get(event.type) ?? [])]) {
+      await handler(event);
+    }
+  } catch (error) {
+    Meteor._debug(`Exception in outbox handler for ${event.type}:`, error);
+    await collection.updateOne(
+      { _id: event._id },
+      {
+        $set: {
+          status: event.attempts >= maxAttempts ? 'failed' : 'pending',
+          lastError: error instanceof Error ? error.message : String(error),
+        },
+        $unset: { lockedUntil: '' },
+      },
+    );
+    return;
+  }
+
+  await collection.updateOne(
+    { _id: event._id },
+    {
+      $set: { status: 'done', processedAt: new Date() },
+      $unset: { lockedUntil: '' },
+    },
+  );
+}
+
+/**
+ * Starts polling the outbox collection on this server.
+ * More dispatchers (e.g. on different servers) can run at the same time, events are claimed atomically.
+ */
+export function startOutboxDispatcher(
+  options: OutboxDispatcherOptions = {},
+): OutboxDispatcher {
+  const { pollIntervalMs, batchSize, lockTimeoutMs, maxAttempts } = {
+    ...DEFAULT_DISPATCHER_OPTIONS,
+    ...options,
+  };
+
+  let stopped = false;
+  let running = false;
+  let rerun = false;
+  let timeout: number | undefined;
+
+  async function poll() {
+    await ensureOutboxCollection();
+    const collection = getOutboxCollection();
+
+    // failed event is retried in the next poll, not immediately
+    const claimedIds: ObjectId[] = [];
+    for (let i = 0; i < batchSize && !stopped; ++i) {
+      const event = await claimEvent(collection, lockTimeoutMs, claimedIds);
+      if (!event) {
+        break;
+      }
+      claimedIds.push(event._id);
+      await deliverEvent(collection, event, maxAttempts);
+    }
+  }
+
+  // polling must never pick up the session of the caller, e.g. of runInSession which wakes the dispatcher
+  function schedule(delay: number) {
+    if (timeout !== undefined) {
+      Meteor.clearTimeout(timeout);
+    }
+    timeout = sessionVariable.withValue(undefined, () =>
+      Meteor.setTimeout(run, delay),
+    );
+  }
+
+  async function run() {
+    timeout = undefined;
+    if (stopped) {
+      return;
+    }
+    // polls must not overlap, woken up dispatcher polls again right after the current poll
+    if (running) {
+      rerun = true;
+      return;
+    }
+
+    running = true;
+    try {
+      await poll();
+    } catch (error) {
+      Meteor._debug('Exception in outbox dispatcher:', error);
+    } finally {
+      running = false;
+    }
+
+    if (rerun) {
+      rerun = false;
+      schedule(0);
+    } else {
+      schedule(pollIntervalMs);
+    }
+  }
+
+  const dispatcher = {
+    wake() {
+      schedule(0);
+    },
+  };
+  dispatchers.add(dispatcher);
+
+  schedule(0);
+
+  return {
+    stop() {
+      stopped = true;
+      dispatchers.delete(dispatcher);
+      if (timeout !== undefined) {
+        Meteor.clearTimeout(timeout);
+      }
+    },
+  };
+}
@@ -1,83 +1,38 @@
 import { Mongo, MongoInternals } from 'meteor/mongo';
-import { SessionContext } from './types';
+import { captureChanges } from './changeSet';
+import { CURSOR_METHODS, trackCursor } from './cursors';
+import { assertBeforeDeadline, getRemainingTimeMs } from './deadline';
+import { recordDryRunWrite } from './dryRun';
+import { getGuardMode } from './guard';
+import { ClientMismatchError, IllegalOperationError } from './errors';
+import { recordOperation } from './journal';
+import { ensureNamespaceBeforeWrite } from './namespaces';
+import {
+  getCollectionClient,
+  getSessionClient,
+  originalMethods,
+  RawCollection,
+} from './rawCollection';
+import { getCurrentSavepoint, isWriteMethod, recordWrite } from './savepoint';
+import {
+  getDriverVersion,
+  getSignatureTable,
+  isKnownDriverVersion,
+  MethodSignature,
+  NO_SESSION_METHODS,
+} from './signatures';
+import { SessionContext, SessionVariable } from './types';
+import { withVersioning } from './versioning';
 
-const RawCollection = MongoInternals.NpmModules.mongodb.module.Collection;
 const Connection = MongoInternals.Connection;
 
 /**
- * Most of the MongoDB's Collection methods belong in one of the three categories by the signature:
- * 1. (options, callback)
- * 2. (param1, options, callback)
- * 3. (param1, param2, options, callback)
- * 4. (param1, param2, param3, options, callback)
- *
- * Options and callback are always optional.
- * ParamN - they might be optional, too.
- *
- * To simplify the overriding process, these methods are grouped into these groups and then overridden.
- */
-const METHODS_WITH_ZERO_PARAMS = [
-  'drop',
-  'options',
-  'isCapped',
-  'dropIndexes',
-  'listIndexes',
-  'indexInformation',
-  'estimatedDocumentCount',
-  'indexes',
-  'stats',
-  'initializeUnorderedBulkOp',
-  'initializeOrderedBulkOp',
-];
-
-/**
- * aggregate, count, countDocuments - optional first param
- */
-const METHODS_WITH_ONE_PARAM = [
-  'insertOne',
-  'insertMany',
-  'bulkWrite',
-  'deleteOne',
-  'deleteMany',
-  'rename',
-  'findOne',
-  'createIndex',
-  'createIndexes',
-  'dropIndex',
-  'indexExists',
-  'countDocuments',
-  'findOneAndDelete',
-  'aggregate',
-  'watch',
-  'insert',
-  'remove',
-  'count',
-];
-
-const METHODS_WITH_TWO_PARAMS = [
-  'updateOne',
-  'replaceOne',
-  'updateMany',
-  'distinct',
-  'findOneAndReplace',
-  'findOneAndUpdate',
-  'mapReduce',
-  'update',
-];
-
-const METHODS_WITH_THREE_PARAMS = [];
-
-/**
- * Other:
- * find - no callback
- * initializeUnorderedBulkOp - no callback
- * listIndexes - no callback
- * watch - no callback
- * group - deprecated, 6 params + options + callback (8 at most)
+ * Wrappers installed on RawCollection.prototype, by method name.
  */
+const patchedMethods = new Map<string, Function>();
 
 export default function patchCollectionMethods(
-  sessionVariable: Meteor.EnvironmentVariable<SessionContext | undefined>,
+  sessionVariable: SessionVariable<SessionContext | undefined>,
 ) {
   /**
    * With this function we wrap each callback function to keep track of all the async callbacks that were created for a session.
@@ -106,6 +61,17 @@ export default function patchCollectionMethods(
     });
   }
 
+  /**
+   * Session and, with maxDurationMs, the time left as maxTimeMS (unless the options set a lower one).
+   */
+  function getOperationOptions(context: SessionContext, options?: any) {
+    const remainingMs = getRemainingTimeMs(context);
+    if (remainingMs === undefined || options?.maxTimeMS <= remainingMs) {
+      return { ...options, session: context.session };
+    }
+    return { ...options, session: context.session, maxTimeMS: remainingMs };
+  }
+
   /**
    * Function that adds session (if necessary) to options and callback method arguments.
    */
@@ -115,154 +81,226 @@ export default function patchCollectionMethods(
       return args;
     }
 
-    const { session } = context;
-
     // nothing is passed here
     if (args.length === 0) {
-      return [{ session }];
+      return [getOperationOptions(context)];
     }
 
     if (args.length === 1) {
       const [optionsOrCallback] = args;
       if (typeof optionsOrCallback === 'function') {
-        return [{ session }, wrapCallback(optionsOrCallback)];
+        return [getOperationOptions(context), wrapCallback(optionsOrCallback)];
       }
       // we have options in optionsOrCallback
-      return [
-        {
-          ...optionsOrCallback,
-          session,
-        },
-      ];
+      return [getOperationOptions(context, optionsOrCallback)];
     }
 
     const [options, callback] = args;
     return [
-      {
-        ...options,
-        session,
-      },
+      getOperationOptions(context, options),
       callback ? wrapCallback(callback) : undefined,
     ];
   }
 
-  // special case for find since it receives not callbacks
-  const originalFind = RawCollection.prototype.find;
-  // @ts-ignore
-  RawCollection.prototype.find = function (query, options) {
+  /**
+   * Applies the guard policy to operations which are not allowed inside a transaction.
+   * Returns true when the operation should run outside the transaction.
+   */
+  function shouldRunOutside(
+    collection,
+    method: string,
+    params: unknown[],
+  ): boolean {
     const context = sessionVariable.get();
-    if (context) {
-      return originalFind.call(this, query, {
-        ...options,
-        session: context.session,
-      });
+    if (!context || context.sessionOnly) {
+      return false;
+    }
+    const mode = getGuardMode(method, params);
+    if (mode === 'throw') {
+      throw new IllegalOperationError(
+        `${method} on collection ${collection.collectionName} is not allowed inside a transaction. ` +
+          'Run it outside the transaction or change the policy with configureGuard.',
+        collection.collectionName,
+        method,
+      );
     }
-    return originalFind.call(this, query, options);
-  };
+    return mode === 'outside';
+  }
 
-  METHODS_WITH_ZERO_PARAMS.forEach((method) => {
-    const originalMethod = RawCollection.prototype[method];
-    // some of listed methods could be deprecated
-    if (typeof originalMethod === 'function') {
-      RawCollection.prototype[method] = function (...args) {
-        if (args.length > 2) {
-          throw new Error(
-            `Fatal error: expected maximum of 2 arguments for ${method} and got ${args.length}.`,
-          );
-        }
-        return originalMethod.call(this, getOptionsAndCallbackArgs(...args));
-      };
+  /**
+   * Session can only be used with collections of the client which started it.
+   */
+  function assertSameClient(collection, method: string) {
+    const context = sessionVariable.get();
+    if (!context) {
+      return;
     }
-  });
+    const client = getCollectionClient(collection);
+    if (client && client !== getSessionClient(context.session)) {
+      throw new ClientMismatchError(
+        `${method} on collection ${collection.collectionName} uses another MongoClient than the running transaction. ` +
+          'Transaction cannot span two clients, start it on the client of the collection with the driver option.',
+      );
+    }
+  }
 
-  METHODS_WITH_ONE_PARAM.forEach((method) => {
-    const originalMethod = RawCollection.prototype[method];
-    // some of listed methods could be deprecated
-    if (typeof originalMethod === 'function') {
-      RawCollection.prototype[method] = function (...args) {
-        if (args.length > 3) {
-          throw new Error(
-            `Fatal error: expected maximum of 3 arguments for ${method} and got ${args.length}.`,
-          );
-        }
+  /**
+   * Calls the original method with already prepared arguments, the first paramCount of them are method's params.
+   * Writes inside a nested scope are recorded so that the scope can be rolled back on its own.
+   */
+  function callMethod(
+    collection,
+    method: string,
+    originalMethod: Function,
+    args: unknown[],
+    paramCount: number,
+  ) {
+    const context = sessionVariable.get();
+    if (!context) {
+      return originalMethod.apply(collection, args);
+    }
+    context.stats.operationCount += 1;
 
-        if (args.length === 0) {
-          // case when the first argument is optional
-          return originalMethod.call(
-            this,
-            undefined,
-            getOptionsAndCallbackArgs([]),
-          );
-        }
-        const [first, ...other] = args;
-        return originalMethod.call(
-          this,
-          first,
-          ...getOptionsAndCallbackArgs(...other),
+    const savepoint = getCurrentSavepoint(context);
+    const isWrite = isWriteMethod(method);
+    const invoke = (writeArgs: unknown[]) => {
+      if (savepoint && isWrite) {
+        return recordWrite(
+          savepoint,
+          context.session,
+          collection,
+          method,
+          writeArgs,
+          (undoArgs) => originalMethod.apply(collection, undoArgs),
         );
-      };
+      }
+      return originalMethod.apply(collection, writeArgs);
+    };
+    const call = () =>
+      recordOperation(
+        context,
+        collection.collectionName,
+        method,
+        args,
+        paramCount,
+        (journalArgs) =>
+          recordDryRunWrite(
+            context,
+            collection.collectionName,
+            method,
+            journalArgs,
+            (dryRunArgs) =>
+              captureChanges(context, collection, method, dryRunArgs, invoke),
+          ),
+      );
+
+    // collection cannot be created inside the transaction (configureNamespaces lazy mode)
+    const namespaceCreated = isWrite
+      ? ensureNamespaceBeforeWrite(collection)
+      : undefined;
+    if (CURSOR_METHODS.includes(method)) {
+      const cursor = call();
+      trackCursor(context, cursor, collection.collectionName, method);
+      return cursor;
     }
-  });
+    if (namespaceCreated) {
+      return namespaceCreated.then(call, (error) => {
+        Meteor._debug(
+          `Exception in creating collection ${collection.collectionName}:`,
+          error,
+        );
+        return call();
+      });
+    }
+    return call();
+  }
 
-  METHODS_WITH_TWO_PARAMS.forEach((method) => {
+  /**
+   * Wraps the method so that the session is put into its options, see signatures.ts.
+   */
+  function patchMethod(
+    method: string,
+    { params, callback, defaults = [] }: MethodSignature,
+  ) {
     const originalMethod = RawCollection.prototype[method];
-    // some of listed methods could be deprecated
-    if (typeof originalMethod === 'function') {
-      RawCollection.prototype[method] = function (...args) {
-        if (args.length > 4) {
-          throw new Error(
-            `Fatal error: expected maximum of 4 arguments for ${method} and got ${args.length}.`,
-          );
-        }
+    // method is not available in the installed driver
+    if (typeof originalMethod !== 'function') {
+      return;
+    }
+    originalMethods[method] = originalMethod;
 
-        if (args.length === 0) {
-          // case when both arguments are optional
-          return originalMethod.call(
-            this,
-            undefined,
-            getOptionsAndCallbackArgs([]),
-          );
-        }
-        if (args.length === 1) {
-          // case when second argument is optional
-          const [first] = args;
-          return originalMethod.call(
-            this,
-            first,
-            undefined,
-            getOptionsAndCallbackArgs([]),
-          );
-        }
-        const [first, second, ...other] = args;
-        return originalMethod.call(
-          this,
-          first,
-          second,
-          ...getOptionsAndCallbackArgs(...other),
+    const maxArgs = params + (callback ? 2 : 1);
+    const withSession = function (this: any, ...args: unknown[]) {
+      if (!sessionVariable.get()) {
+        return originalMethod.apply(this, args);
+      }
+      if (shouldRunOutside(this, method, args.slice(0, params))) {
+        return sessionVariable.withValue(undefined, () =>
+          originalMethod.apply(this, args),
         );
-      };
-    }
-  });
+      }
+      assertSameClient(this, method);
+      assertBeforeDeadline(
+        sessionVariable.get()!,
+        `${method} on collection ${this.collectionName}`,
+      );
+      if (args.length > maxArgs) {
+        throw new Error(
+          `Fatal error: expected maximum of ${maxArgs} arguments for ${method} and got ${args.length}.`,
+        );
+      }
+
+      let paramArgs = args.slice(0, params);
+      let optionsArgs = args.slice(params);
+      // optional params can be left out before the callback, e.g. count(callback)
+      const callbackIndex = paramArgs.findIndex(
+        (arg) => typeof arg === 'function',
+      );
+      if (callback && callbackIndex !== -1) {
+        optionsArgs = paramArgs.slice(callbackIndex);
+        paramArgs = paramArgs.slice(0, callbackIndex);
+      }
+      if (!callback && optionsArgs.some((arg) => typeof arg === 'function')) {
+        throw new Error(
+          `${method} does not accept a callback with mongodb driver ${getDriverVersion()}.`,
+        );
+      }
+      // options must stay at their position
+      while (paramArgs.length < params) {
+        paramArgs.push(defaults[paramArgs.length]);
+      }
+
+      return callMethod(
+        this,
+        method,
+        originalMethod,
+        [...paramArgs, ...getOptionsAndCallbackArgs(...optionsArgs)],
+        params,
+      );
+    };
+    // versioning applies with and without the session
+    const wrapper = function (this: any, ...args: unknown[]) {
+      return withVersioning(this, method, args, (versionedArgs) =>
+        withSession.apply(this, versionedArgs),
+      );
+    };
 
-  // METHODS_WITH_THREE_PARAMS.forEach(method => {
-  //     const originalMethod = RawCollection.prototype[method];
-  //     // some of listed methods could be deprecated
-  //     if (typeof originalMethod === 'function') {
-  //         RawCollection.prototype[method] = function (...args) {
-  //             if (args.length > 5) {
-  //                 throw new Error(`Fatal error: expected maximum of 5 arguments for ${method} and got ${args.length}.`);
-  //             }
+    RawCollection.prototype[method] = wrapper;
+    patchedMethods.set(method, wrapper);
+  }
 
-  //             const [first, second, third, ...other] = args;
-  //             return originalMethod.call(this, first, second, third, ...getOptionsAndCallbackArgs(...other));
-  //         };
-  //     }
-  // });
+  Object.entries(getSignatureTable()).forEach(([method, signature]) =>
+    patchMethod(method, signature),
+  );
 
   // Callbacks on Meteor methods are handled differently after 2.6. They're not passed to the mongodb driver, but
   // handled in mongo_driver.js directly because they are using promises now to wait for command to finish.
+  // Meteor 3 has no callbacks on server side and no _insert/_remove methods.
   ['_insert', '_remove'].forEach((method) => {
     const originalMethod = Connection.prototype[method];
+    if (typeof originalMethod !== 'function') {
+      return;
+    }
     Connection.prototype[method] = function (...args) {
       if (typeof args[2] === 'function') {
         return originalMethod.call(
@@ -276,3 +314,37 @@ export default function patchCollectionMethods(
     };
   });
 }
+
+/**
+ * Methods of the installed driver's Collection which are not (or no longer) patched, i.e. would not get the session.
+ */
+export function getUnpatchedMethods(): string[] {
+  const prototype = RawCollection.prototype;
+  return Object.getOwnPropertyNames(prototype).filter((method) => {
+    const descriptor = Object.getOwnPropertyDescriptor(prototype, method);
+    return (
+      typeof descriptor?.value === 'function' &&
+      !method.startsWith('_') &&
+      !NO_SESSION_METHODS.includes(method) &&
+      patchedMethods.get(method) !== descriptor.value
+    );
+  });
+}
+
+/**
+ * Startup self-check, logs what might not work with the installed driver.
+ */
+export function checkPatchedMethods() {
+  const version = getDriverVersion();
+  if (!isKnownDriverVersion(version)) {
+    Meteor._debug(
+      `mongo-transactions: mongodb driver ${version} is not known, method signatures of the closest known version are used.`,
+    );
+  }
+  const unpatched = getUnpatchedMethods();
+  if (unpatched.length > 0) {
+    Meteor._debug(
+      `mongo-transactions: these collection methods of mongodb driver ${version} do not get the session: ${unpatched.join(', ')}.`,
+    );
+  }
+}
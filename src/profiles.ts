@@ -0,0 +1,102 @@
+import {
+  getDefaultOptions,
+  RunInTransactionOptions,
+  validateOptions,
+} from './options';
+
+/**
+ * Named sets of transaction options, e.g. runInTransaction(fn, 'billing').
+ * A profile is merged on top of the default options (see setDefaultOptions) each time it is used, so changing the
+ * defaults later applies to all profiles which do not override them.
+ */
+
+const profiles = new Map<string, RunInTransactionOptions>();
+
+// options merged one level deep when both the defaults and the profile set them to an object
+const MERGED_OPTIONS = [
+  'sessionOptions',
+  'transactionOptions',
+  'retry',
+  'journal',
+] as const;
+
+type MergedOption = (typeof MERGED_OPTIONS)[number];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+function mergeOption<K extends MergedOption>(
+  merged: RunInTransactionOptions,
+  base: RunInTransactionOptions,
+  overrides: RunInTransactionOptions,
+  option: K,
+) {
+  const baseValue = base[option];
+  const overrideValue = overrides[option];
+  if (isPlainObject(baseValue) && isPlainObject(overrideValue)) {
+    merged[option] = {
+      ...baseValue,
+      ...overrideValue,
+    } as RunInTransactionOptions[K];
+  }
+}
+
+/**
+ * Profile values win, except for MERGED_OPTIONS whose objects are merged.
+ */
+export function mergeOptions(
+  base: RunInTransactionOptions,
+  overrides: RunInTransactionOptions,
+): RunInTransactionOptions {
+  const merged: RunInTransactionOptions = { ...base, ...overrides };
+  MERGED_OPTIONS.forEach((option) =>
+    mergeOption(merged, base, overrides, option),
+  );
+  return merged;
+}
+
+/**
+ * Registers (or replaces) the profile. It is checked against the current default options right away and again
+ * whenever it is used.
+ */
+export function defineTransactionProfile(
+  name: string,
+  options: RunInTransactionOptions,
+) {
+  validateOptions(
+    `Transaction profile '${name}'`,
+    mergeOptions(getDefaultOptions(), options),
+  );
+  profiles.set(name, options);
+}
+
+/**
+ * Options of the profile merged on top of the default options.
+ */
+export function getTransactionProfile(name: string): RunInTransactionOptions {
+  const profile = profiles.get(name);
+  if (!profile) {
+    throw new Error(`Transaction profile '${name}' is not defined.`);
+  }
+  const options = mergeOptions(getDefaultOptions(), profile);
+  validateOptions(`Transaction profile '${name}'`, options);
+  return options;
+}
+
+/**
+ * Options passed as an object are used as they are, a string is the name of a profile. Both are validated.
+ */
+export function resolveOptions(
+  options: RunInTransactionOptions | string,
+): RunInTransactionOptions {
+  if (typeof options === 'string') {
+    return getTransactionProfile(options);
+  }
+  validateOptions('Transaction options', options);
+  return options;
+}
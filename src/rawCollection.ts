@@ -0,0 +1,25 @@
+import { MongoInternals } from 'meteor/mongo';
+import type { ClientSession, Collection, MongoClient } from 'mongodb';
+
+export const RawCollection =
+  MongoInternals.NpmModules.mongodb.module.Collection;
+
+/**
+ * Collection methods as they were before patching.
+ * Used for internal operations which must not be intercepted (e.g. undoing writes of a nested scope).
+ */
+export const originalMethods: Record<string, Function> = {};
+
+/**
+ * Client which owns the collection. Newer drivers expose it as collection.client, older ones only internally.
+ */
+export function getCollectionClient(
+  collection: Collection,
+): MongoClient | undefined {
+  const raw = collection as any;
+  return raw.client ?? raw.s?.db?.s?.client;
+}
+
+export function getSessionClient(session: ClientSession): MongoClient {
+  return (session as any).client;
+}
@@ -0,0 +1,106 @@
+/**
+ * Retry policy implemented by the package, alternative to the driver's session.withTransaction.
+ *
+ * Same as in the driver, there are two kinds of retries:
+ * - 'transaction' - the whole transaction is run again (callback included), by default on TransientTransactionError
+ * - 'commit' - only commitTransaction is called again, by default on UnknownTransactionCommitResult
+ */
+
+export type RetryPhase = 'transaction' | 'commit';
+
+export interface RetryInfo {
+  // attempt which is about to start, first retry is attempt 2
+  attempt: number;
+  phase: RetryPhase;
+  error: unknown;
+  delayMs: number;
+}
+
+export interface RetryPolicy {
+  // maximum number of attempts, commit retries included (default 5)
+  maxAttempts?: number;
+  // no retry is started after this time elapses since the transaction started (default 120000, same as the driver)
+  maxDurationMs?: number;
+  // delay before the first retry, doubled (see backoffFactor) for each next one (default 10)
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  backoffFactor?: number;
+  // when true, random delay between 0 and the computed one is used (default true)
+  jitter?: boolean;
+  // which errors are retried, see defaultIsRetryable
+  isRetryable?: (error: unknown, phase: RetryPhase) => boolean;
+  // retry only commitTransaction, never run the callback again
+  commitOnly?: boolean;
+  onRetry?: (info: RetryInfo) => void;
+}
+
+const DEFAULT_RETRY_POLICY = {
+  maxAttempts: 5,
+  maxDurationMs: 120 * 1000,
+  initialDelayMs: 10,
+  maxDelayMs: 1000,
+  backoffFactor: 2,
+  jitter: true,
+};
+
+// MaxTimeMSExpired
+const MAX_TIME_MS_EXPIRED = 50;
+
+export function hasErrorLabel(error: any, label: string): boolean {
+  return typeof error?.hasErrorLabel === 'function'
+    ? error.hasErrorLabel(label)
+    : false;
+}
+
+export function defaultIsRetryable(error: unknown, phase: RetryPhase) {
+  if (phase === 'commit') {
+    return (
+      hasErrorLabel(error, 'UnknownTransactionCommitResult') &&
+      (error as any)?.code !== MAX_TIME_MS_EXPIRED
+    );
+  }
+  return hasErrorLabel(error, 'TransientTransactionError');
+}
+
+/**
+ * Returns delay before the next attempt, or undefined if the error should not be retried.
+ */
+export function getRetryDelay(
+  policy: RetryPolicy,
+  error: unknown,
+  phase: RetryPhase,
+  attempt: number,
+  startTime: number,
+): number | undefined {
+  const {
+    maxAttempts,
+    maxDurationMs,
+    initialDelayMs,
+    maxDelayMs,
+    backoffFactor,
+    jitter,
+  } = { ...DEFAULT_RETRY_POLICY, ...policy };
+  const isRetryable = policy.isRetryable ?? defaultIsRetryable;
+
+  if (phase === 'transaction' && policy.commitOnly) {
+    return undefined;
+  }
+  if (attempt >= maxAttempts || !isRetryable(error, phase)) {
+    return undefined;
+  }
+
+  const backoff = Math.min(
+    maxDelayMs,
+    initialDelayMs * Math.pow(backoffFactor, attempt - 1),
+  );
+  const delayMs = jitter ? Math.round(Math.random() * backoff) : backoff;
+
+  if (Date.now() - startTime + delayMs >= maxDurationMs) {
+    return undefined;
+  }
+  return delayMs;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,180 @@
+import type { ClientSession, Collection } from 'mongodb';
+import { originalMethods } from './rawCollection';
+import { Savepoint, SessionContext, UndoEntry } from './types';
+
+/**
+ * MongoDB has no savepoints, so nested scopes are emulated with an undo log.
+ * Before each write inside a nested scope we store the documents matched by the write's filter and after the write
+ * we store ids of inserted/upserted documents. Rolling back a savepoint then means restoring the snapshots and
+ * deleting inserted documents, all within the same session.
+ */
+
+/**
+ * Writes which have the filter as their first argument.
+ */
+export const FILTER_WRITE_METHODS = [
+  'updateOne',
+  'updateMany',
+  'update',
+  'replaceOne',
+  'deleteOne',
+  'deleteMany',
+  'remove',
+  'findOneAndUpdate',
+  'findOneAndReplace',
+  'findOneAndDelete',
+];
+
+export const INSERT_METHODS = ['insertOne', 'insertMany', 'insert'];
+
+/**
+ * Writes we cannot undo, they are rejected inside a nested scope.
+ */
+const UNSUPPORTED_WRITE_METHODS = ['bulkWrite'];
+
+export function getCurrentSavepoint(
+  context: SessionContext | undefined,
+): Savepoint | undefined {
+  return context?.savepoints[context.savepoints.length - 1];
+}
+
+export function isWriteMethod(method: string): boolean {
+  return (
+    FILTER_WRITE_METHODS.includes(method) ||
+    INSERT_METHODS.includes(method) ||
+    UNSUPPORTED_WRITE_METHODS.includes(method)
+  );
+}
+
+export function getInsertedIds(result: any): unknown[] {
+  if (!result) {
+    return [];
+  }
+  if (result.insertedId !== undefined) {
+    return [result.insertedId];
+  }
+  if (result.insertedIds) {
+    return Object.values(result.insertedIds);
+  }
+  if (result.upsertedId) {
+    return [result.upsertedId];
+  }
+  if (result.lastErrorObject?.upserted) {
+    return [result.lastErrorObject.upserted];
+  }
+  return [];
+}
+
+/**
+ * Runs the write while recording what is needed to undo it.
+ * Supports both promise and callback style, callback is expected to be the last argument.
+ */
+export function recordWrite(
+  savepoint: Savepoint,
+  session: ClientSession,
+  collection: Collection,
+  method: string,
+  args: unknown[],
+  invoke: (args: unknown[]) => any,
+) {
+  if (UNSUPPORTED_WRITE_METHODS.includes(method)) {
+    throw new Error(
+      `${method} on ${collection.collectionName} is not supported inside a nested transaction scope.`,
+    );
+  }
+
+  const callback =
+    typeof args[args.length - 1] === 'function'
+      ? (args[args.length - 1] as Function)
+      : undefined;
+  const writeArgs = callback ? args.slice(0, -1) : args;
+
+  const promise = (async () => {
+    const entry: UndoEntry = {
+      collection,
+      snapshot: [],
+      insertedIds: [],
+    };
+
+    if (FILTER_WRITE_METHODS.includes(method)) {
+      entry.snapshot = await originalMethods.find
+        .call(collection, writeArgs[0] ?? {}, { session })
+        .toArray();
+    }
+    savepoint.undo.push(entry);
+
+    const result = await invoke(writeArgs);
+    entry.insertedIds = getInsertedIds(result);
+    return result;
+  })();
+
+  if (callback) {
+    promise.then(
+      (result) => callback(null, result),
+      (error) => callback(error),
+    );
+    return undefined;
+  }
+  return promise;
+}
+
+async function undoEntry(session: ClientSession, entry: UndoEntry) {
+  const { collection, snapshot, insertedIds } = entry;
+
+  if (insertedIds.length > 0) {
+    await originalMethods.deleteMany.call(
+      collection,
+      { _id: { $in: insertedIds } },
+      { session },
+    );
+  }
+
+  for (const doc of snapshot) {
+    await originalMethods.replaceOne.call(collection, { _id: doc._id }, doc, {
+      session,
+      upsert: true,
+    });
+  }
+}
+
+/**
+ * Undoes all writes recorded in the savepoint, the last write is undone first.
+ */
+export async function rollbackSavepoint(
+  session: ClientSession,
+  savepoint: Savepoint,
+) {
+  for (const entry of [...savepoint.undo].reverse()) {
+    await undoEntry(session, entry);
+  }
+  savepoint.undo = [];
+}
+
+export function discardSavepoint(
+  context: SessionContext,
+  savepoint: Savepoint,
+) {
+  const index = context.savepoints.lastIndexOf(savepoint);
+  if (index !== -1) {
+    context.savepoints.splice(index, 1);
+  }
+}
+
+export function releaseSavepoint(
+  context: SessionContext,
+  savepoint: Savepoint,
+) {
+  discardSavepoint(context, savepoint);
+
+  // outer nested scope must be able to undo writes of the inner one
+  const parent = getCurrentSavepoint(context);
+  if (parent) {
+    parent.undo.push(...savepoint.undo);
+  }
+
+  // hooks now belong to the enclosing scope
+  const { hooks } = parent ?? context;
+  hooks.commit.push(...savepoint.hooks.commit);
+  hooks.abort.push(...savepoint.hooks.abort);
+  hooks.finally.push(...savepoint.hooks.finally);
+}
@@ -0,0 +1,59 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Promise } from 'meteor/promise';
+import { SessionContext, SessionVariable } from './types';
+
+/**
+ * Meteor 3 runs without fibers and sets Meteor.isFibersDisabled.
+ */
+export const isFibersEnabled = !(Meteor as any).isFibersDisabled;
+
+/**
+ * Body of the sync versions of the API (e.g. runInTransaction), available only when Meteor runs with fibers (Meteor 2).
+ * Name is the name of the sync function, the async one has the Async suffix.
+ */
+export function awaitSync<R>(
+  name: string,
+  run: () => globalThis.Promise<R>,
+): R {
+  if (!isFibersEnabled) {
+    throw new Error(`${name} requires fibers, use ${name}Async instead.`);
+  }
+  return Promise.await(run());
+}
+
+/**
+ * Same contract as Meteor.EnvironmentVariable, but the value is propagated with AsyncLocalStorage
+ * so it survives awaits without fibers.
+ */
+export class AsyncSessionVariable<T> implements SessionVariable<T> {
+  private storage = new AsyncLocalStorage<{ value: T }>();
+
+  get(): T | undefined {
+    return this.storage.getStore()?.value;
+  }
+
+  withValue<R>(value: T, fn: () => R): R {
+    return this.storage.run({ value }, fn);
+  }
+}
+
+export function createSessionVariable<T>(): SessionVariable<T | undefined> {
+  if (isFibersEnabled) {
+    return new Meteor.EnvironmentVariable<T | undefined>();
+  }
+  return new AsyncSessionVariable<T | undefined>();
+}
+
+/**
+ * Storing context here for each transaction.
+ * Meteor.EnvironmentVariable with fibers, AsyncLocalStorage without them.
+ */
+export const sessionVariable = createSessionVariable<SessionContext>();
+
+/**
+ * Context of the running transaction. Unlike sessionVariable.get(), undefined inside runInSession.
+ */
+export function getTransactionContext(): SessionContext | undefined {
+  const context = sessionVariable.get();
+  return context?.sessionOnly ? undefined : context;
+}
@@ -0,0 +1,139 @@
+import { MongoInternals } from 'meteor/mongo';
+
+/**
+ * Signatures of the Collection methods which accept a session, by the major version of the mongodb driver.
+ * Each method is patched to put the session into its options argument, which comes after `params` arguments:
+ * e.g. updateOne(filter, update, options) has 2 params. Params before options might be optional.
+ *
+ * Driver 4 accepts a callback after the options, drivers 5 and 6 are promise only.
+ * Methods missing in the installed driver are skipped.
+ */
+
+export interface MethodSignature {
+  // number of arguments before the options
+  params: number;
+  // whether a callback can be passed after the options
+  callback: boolean;
+  // values of the params which were left out, undefined when not set
+  defaults?: unknown[];
+}
+
+export type SignatureTable = Record<string, MethodSignature>;
+
+type Signatures = Record<string, Omit<MethodSignature, 'callback'>>;
+
+function withCallback(callback: boolean, methods: Signatures): SignatureTable {
+  const table: SignatureTable = {};
+  Object.entries(methods).forEach(([method, signature]) => {
+    table[method] = { ...signature, callback };
+  });
+  return table;
+}
+
+const COMMON_METHODS: Signatures = {
+  insertOne: { params: 1 },
+  insertMany: { params: 1 },
+  bulkWrite: { params: 1 },
+  updateOne: { params: 2 },
+  replaceOne: { params: 2 },
+  updateMany: { params: 2 },
+  deleteOne: { params: 1, defaults: [{}] },
+  deleteMany: { params: 1, defaults: [{}] },
+  rename: { params: 1 },
+  drop: { params: 0 },
+  findOne: { params: 1, defaults: [{}] },
+  options: { params: 0 },
+  isCapped: { params: 0 },
+  createIndex: { params: 1 },
+  createIndexes: { params: 1 },
+  dropIndex: { params: 1 },
+  dropIndexes: { params: 0 },
+  indexExists: { params: 1 },
+  indexInformation: { params: 0 },
+  estimatedDocumentCount: { params: 0 },
+  // driver 4 drops the options when the filter is missing
+  countDocuments: { params: 1, defaults: [{}] },
+  distinct: { params: 2, defaults: [undefined, {}] },
+  indexes: { params: 0 },
+  stats: { params: 0 },
+  findOneAndDelete: { params: 1 },
+  findOneAndReplace: { params: 2 },
+  findOneAndUpdate: { params: 2 },
+  count: { params: 1, defaults: [{}] },
+};
+
+// methods returning a cursor, stream or bulk operation never take a callback
+const NO_CALLBACK_METHODS: Signatures = {
+  find: { params: 1, defaults: [{}] },
+  aggregate: { params: 1, defaults: [[]] },
+  watch: { params: 1, defaults: [[]] },
+  listIndexes: { params: 0 },
+  initializeUnorderedBulkOp: { params: 0 },
+  initializeOrderedBulkOp: { params: 0 },
+};
+
+const DRIVER_4: SignatureTable = {
+  ...withCallback(true, COMMON_METHODS),
+  ...withCallback(true, {
+    mapReduce: { params: 2 },
+    insert: { params: 1 },
+    update: { params: 2 },
+    remove: { params: 1, defaults: [{}] },
+  }),
+  ...withCallback(false, NO_CALLBACK_METHODS),
+};
+
+const PROMISE_ONLY: SignatureTable = {
+  ...withCallback(false, COMMON_METHODS),
+  ...withCallback(false, NO_CALLBACK_METHODS),
+};
+
+// mapReduce was removed in driver 6
+const DRIVER_5: SignatureTable = {
+  ...PROMISE_ONLY,
+  ...withCallback(false, { mapReduce: { params: 2 } }),
+};
+
+const SIGNATURES_BY_VERSION: Record<number, SignatureTable> = {
+  4: DRIVER_4,
+  5: DRIVER_5,
+  6: PROMISE_ONLY,
+};
+
+const KNOWN_VERSIONS = Object.keys(SIGNATURES_BY_VERSION).map(Number);
+
+/**
+ * Collection methods which don't take a session, ignored by the self-check.
+ */
+export const NO_SESSION_METHODS = [
+  'constructor',
+  'getLogger',
+  'listSearchIndexes',
+  'createSearchIndex',
+  'createSearchIndexes',
+  'dropSearchIndex',
+  'updateSearchIndex',
+];
+
+export function getDriverVersion(): string {
+  return MongoInternals.NpmModules.mongodb.version;
+}
+
+export function isKnownDriverVersion(
+  version: string = getDriverVersion(),
+): boolean {
+  return KNOWN_VERSIONS.includes(parseInt(version, 10));
+}
+
+/**
+ * Unknown versions get the table of the closest known one.
+ */
+export function getSignatureTable(
+  version: string = getDriverVersion(),
+): SignatureTable {
+  const major = parseInt(version, 10);
+  const closest = KNOWN_VERSIONS.reduce((best, known) =>
+    Math.abs(known - major) < Math.abs(best - major) ? known : best,
+  );
+  return SIGNATURES_BY_VERSION[closest];
+}
@@ -0,0 +1,118 @@
+import type { MongoClient } from 'mongodb';
+import { TransactionsNotSupportedError } from './errors';
+
+/**
+ * Transactions need a replica set or a sharded cluster, but `meteor run` starts a standalone mongod where every
+ * transaction fails on its first operation. Topology of the default client is detected at startup (of other clients
+ * on their first transaction) and on a standalone server a new transaction:
+ * - 'throw' (default) - throws TransactionsNotSupportedError
+ * - 'withoutTransaction' - runs the function with a session, but without a transaction, writes are not rolled back
+ *   on errors; a warning is logged on the first use (again after configureTopology)
+ * The topology option skips the detection, e.g. to try the standalone mode against a replica set in tests.
+ */
+
+export type Topology = 'standalone' | 'replicaSet' | 'sharded' | 'unknown';
+
+export type StandaloneMode = 'throw' | 'withoutTransaction';
+
+export interface TopologyOptions {
+  standalone?: StandaloneMode;
+  // used instead of the detected topology of all clients
+  topology?: Topology;
+}
+
+let topologyOptions: TopologyOptions = {};
+let warnedClients = new WeakSet<MongoClient>();
+
+export function configureTopology(options: TopologyOptions) {
+  topologyOptions = { ...topologyOptions, ...options };
+  warnedClients = new WeakSet();
+}
+
+const topologies = new WeakMap<MongoClient, Promise<Topology>>();
+// detected topologies, so that transactions do not wait for the promise once it is known
+const detectedTopologies = new WeakMap<MongoClient, Topology>();
+
+async function hello(client: MongoClient) {
+  const admin = client.db('admin');
+  try {
+    return await admin.command({ hello: 1 });
+  } catch (e) {
+    // servers before 4.4.2
+    return admin.command({ isMaster: 1 });
+  }
+}
+
+/**
+ * Detection which failed (e.g. the server was not reachable) is tried again on the next call and does not prevent
+ * transactions, the server reports the error then.
+ */
+export function detectTopology(client: MongoClient): Promise<Topology> {
+  if (topologyOptions.topology) {
+    return Promise.resolve(topologyOptions.topology);
+  }
+  let topology = topologies.get(client);
+  if (!topology) {
+    topology = hello(client).then(
+      (reply): Topology => {
+        let detected: Topology = 'standalone';
+        if (reply.setName) {
+          detected = 'replicaSet';
+        } else if (reply.msg === 'isdbgrid') {
+          detected = 'sharded';
+        }
+        detectedTopologies.set(client, detected);
+        return detected;
+      },
+      (error): Topology => {
+        topologies.delete(client);
+        Meteor._debug(
+          'mongo-transactions: could not detect the topology of MongoDB:',
+          error,
+        );
+        return 'unknown';
+      },
+    );
+    topologies.set(client, topology);
+  }
+  return topology;
+}
+
+/**
+ * Topology of the client, undefined until it is detected.
+ */
+export function getDetectedTopology(client: MongoClient): Topology | undefined {
+  return topologyOptions.topology ?? detectedTopologies.get(client);
+}
+
+/**
+ * Whether a new transaction on the client with the topology can be started, see the standalone mode.
+ */
+export function canStartTransactionOn(
+  client: MongoClient,
+  topology: Topology,
+): boolean {
+  if (topology !== 'standalone') {
+    return true;
+  }
+  if ((topologyOptions.standalone ?? 'throw') === 'throw') {
+    throw new TransactionsNotSupportedError(
+      'Transactions are not supported by a standalone MongoDB server. Run it as a replica set (a single node one ' +
+        "is enough) or use configureTopology({standalone: 'withoutTransaction'}) to run without transactions.",
+    );
+  }
+  if (!warnedClients.has(client)) {
+    warnedClients.add(client);
+    Meteor._debug(
+      'mongo-transactions: MongoDB is a standalone server, transactions run without a transaction and their ' +
+        'writes are not rolled back on errors.',
+    );
+  }
+  return false;
+}
+
+export async function canStartTransaction(
+  client: MongoClient,
+): Promise<boolean> {
+  return canStartTransactionOn(client, await detectTopology(client));
+}
@@ -1,5 +1,65 @@
+import type {ClientSession, Collection, Document} from 'mongodb';
+import type {ChangeSet} from './changeSet';
+import type {DryRunChanges} from './dryRun';
+import type {TransactionJournal} from './journal';
 
-import type {ClientSession} from 'mongodb';
+export interface UndoEntry {
+    collection: Collection;
+    // documents matched by the write's filter before the write happened
+    snapshot: Document[];
+    // ids of the documents inserted or upserted by the write
+    insertedIds: unknown[];
+}
+
+export interface TransactionHooks {
+    commit: Array<(changeSet?: ChangeSet) => unknown>;
+    abort: Array<(error: unknown) => unknown>;
+    finally: Array<() => unknown>;
+}
+
+export interface Savepoint {
+    undo: UndoEntry[];
+    rollbackOnly: boolean;
+    // hooks registered inside the nested scope, merged into the parent when the scope succeeds
+    hooks: TransactionHooks;
+    // length of the transaction's change set when the scope started, later changes are dropped on rollback
+    changeSetLength: number;
+    // counts of the dry run when the scope started, restored on rollback
+    dryRun?: DryRunChanges;
+}
+
+/**
+ * Method invocation the transaction was started from, see transactionalMethods.
+ */
+export interface MethodContext {
+    name: string;
+    userId: string | null;
+    connection: Meteor.Connection | null;
+    invocation: Meteor.MethodThisType;
+}
+
+export interface TransactionStats {
+    id: number;
+    // Date.now() when the transaction started
+    startedAt: number;
+    attempt: number;
+    // operations issued through the patched collection methods
+    operationCount: number;
+}
+
+/**
+ * Cursor created by find or aggregate inside the transaction, see cursors.ts.
+ */
+export interface TrackedCursor {
+    cursor: any;
+    collectionName: string;
+    method: string;
+    // transactional method and stack of the code which created the cursor, for the error message
+    transactionMethod?: string;
+    callSite: string;
+    // set when the transaction ended
+    expired: boolean;
+}
 
 export interface SessionContext {
     session: ClientSession;
@@ -8,4 +68,39 @@ export interface SessionContext {
     callbackCount: number;
     callbackErrors: unknown[];
     resolveCallbacks();
+
+    // set when a joined scope failed, transaction can only be aborted
+    rollbackOnly: boolean;
+    // stack of emulated nested scopes, innermost is last
+    savepoints: Savepoint[];
+    hooks: TransactionHooks;
+    // set when the transaction runs as a body of transactional method
+    method?: MethodContext;
+    stats: TransactionStats;
+    // set when the transaction was started with the journal option
+    journal?: TransactionJournal;
+    // set by runInSession, the session is used without a transaction
+    sessionOnly?: boolean;
+    // standalone server, the function runs with the session only, see configureTopology
+    withoutTransaction?: boolean;
+    // set once the session was ended
+    ended?: boolean;
+    // cursors created in the transaction, closed when it ends
+    cursors: TrackedCursor[];
+    // operations are rejected once the transaction runs longer, see deadline.ts
+    maxDurationMs?: number;
+    // set by dryRunTransaction, counts of written documents by collection
+    dryRun?: DryRunChanges;
+    // before and after images of written documents, when started with the changeSet option
+    changeSet?: ChangeSet;
+    // Meteor.defer and Meteor.setTimeout callbacks are queued until commit, see defer.ts
+    deferUntilCommit?: boolean;
+}
+
+/**
+ * Contract of Meteor.EnvironmentVariable that the package relies on.
+ */
+export interface SessionVariable<T> {
+    get(): T | undefined;
+    withValue<R>(value: T, fn: () => R): R;
 }
@@ -0,0 +1,232 @@
+import type { Collection, Document } from 'mongodb';
+import { Mongo } from 'meteor/mongo';
+import { VersionConflictError } from './errors';
+import { originalMethods } from './rawCollection';
+import { sessionVariable } from './sessionVariable';
+
+/**
+ * Optimistic concurrency control. Documents of a versioned collection carry a version field which is set to 1 on
+ * insert and incremented by every update through the patched methods, with or without a transaction.
+ * A write whose filter (or replacement) contains the version expects the document to still be at that version.
+ * When it matches nothing but the document with the _id of the filter is at another version, VersionConflictError is
+ * thrown. Replacements must carry the expected version.
+ */
+
+export interface VersioningOptions {
+  // default '_version'
+  field?: string;
+}
+
+// version field by dbName.collectionName, rawCollection() returns a new object each time
+const versionFields = new Map<string, string>();
+
+const UPDATE_METHODS = [
+  'updateOne',
+  'updateMany',
+  'update',
+  'findOneAndUpdate',
+];
+const REPLACE_METHODS = ['replaceOne', 'findOneAndReplace'];
+const INSERT_METHODS = ['insertOne', 'insertMany', 'insert'];
+
+function getKey(collection: { dbName: string; collectionName: string }) {
+  return `${collection.dbName}.${collection.collectionName}`;
+}
+
+export function enableVersioning(
+  collection: Mongo.Collection<any>,
+  { field = '_version' }: VersioningOptions = {},
+) {
+  versionFields.set(getKey(collection.rawCollection()), field);
+}
+
+function isOperatorUpdate(update: Document): boolean {
+  return Object.keys(update).some((key) => key.startsWith('$'));
+}
+
+function omitField(document: Document, field: string): Document {
+  const { [field]: omitted, ...rest } = document;
+  return rest;
+}
+
+/**
+ * Version field is managed by the package, it is removed from all operators of the update.
+ */
+function incrementVersion(update: unknown, field: string): unknown {
+  if (Array.isArray(update)) {
+    return [
+      ...update,
+      { $set: { [field]: { $add: [{ $ifNull: [`$${field}`, 0] }, 1] } } },
+    ];
+  }
+  const operators: Document = {};
+  Object.entries(update as Document).forEach(([operator, fields]) => {
+    operators[operator] =
+      fields && typeof fields === 'object' ? omitField(fields, field) : fields;
+  });
+  return {
+    ...operators,
+    $inc: { ...operators.$inc, [field]: 1 },
+  };
+}
+
+function getExpectedVersion(
+  filter: Document,
+  replacement: Document | undefined,
+  field: string,
+): number | undefined {
+  if (typeof filter[field] === 'number') {
+    return filter[field];
+  }
+  if (replacement && typeof replacement[field] === 'number') {
+    return replacement[field];
+  }
+  return undefined;
+}
+
+function matchedNothing(method: string, result: any): boolean {
+  if (method.startsWith('findOneAnd')) {
+    // drivers before 6 return ModifyResult, driver 6 the document itself
+    const isModifyResult = !!result && 'lastErrorObject' in result;
+    return isModifyResult
+      ? result.value === null && !result.lastErrorObject?.upserted
+      : result === null;
+  }
+  return result?.matchedCount === 0 && !result.upsertedCount;
+}
+
+/**
+ * Only the _id of the filter tells which document the write was meant for, other conditions can match another one.
+ */
+function getDocumentId(filter: Document): unknown {
+  const id = filter._id;
+  const isOperator =
+    !!id &&
+    typeof id === 'object' &&
+    Object.keys(id).some((key) => key.startsWith('$'));
+  return isOperator ? undefined : id;
+}
+
+async function findConflict(
+  collection: Collection,
+  field: string,
+  filter: Document,
+  expectedVersion: number,
+): globalThis.Promise<VersionConflictError | undefined> {
+  const id = getDocumentId(filter);
+  if (id === undefined) {
+    return undefined;
+  }
+  const session = sessionVariable.get()?.session;
+  const current = await originalMethods.findOne.call(
+    collection,
+    { _id: id },
+    { session, projection: { [field]: 1 } },
+  );
+  // at the expected version, it is the rest of the filter which did not match
+  if (!current || current[field] === expectedVersion) {
+    return undefined;
+  }
+  return new VersionConflictError(
+    `Version conflict on collection ${collection.collectionName}: document ${String(current._id)} ` +
+      `was expected at version ${expectedVersion}, but it is at version ${current[field]}.`,
+    collection.collectionName,
+    expectedVersion,
+    current[field],
+  );
+}
+
+/**
+ * Calls the method with the version field applied to its arguments and checks the expected version.
+ * Supports both promise and callback style, callback is expected to be the last argument.
+ */
+export function withVersioning(
+  collection: Collection,
+  method: string,
+  args: unknown[],
+  call: (args: unknown[]) => any,
+) {
+  const field =
+    versionFields.size > 0 ? versionFields.get(getKey(collection)) : undefined;
+  if (!field) {
+    return call(args);
+  }
+
+  if (INSERT_METHODS.includes(method)) {
+    // in place, like the driver sets _id of inserted documents
+    const documents = Array.isArray(args[0]) ? args[0] : [args[0]];
+    documents.forEach((document) => {
+      if (document && document[field] === undefined) {
+        document[field] = 1;
+      }
+    });
+    return call(args);
+  }
+
+  const isReplace = REPLACE_METHODS.includes(method);
+  const isUpdate = UPDATE_METHODS.includes(method);
+  if (!isReplace && !isUpdate) {
+    return call(args);
+  }
+
+  const filter = (args[0] ?? {}) as Document;
+  const update = args[1] as Document;
+  // legacy update accepts a replacement too
+  const replacement =
+    isReplace || (!Array.isArray(update) && !isOperatorUpdate(update))
+      ? update
+      : undefined;
+  const expectedVersion = getExpectedVersion(filter, replacement, field);
+  // the version can't be incremented without knowing the current one, restarting it would repeat versions
+  if (replacement && expectedVersion === undefined) {
+    throw new Error(
+      `${method} on versioned collection ${collection.collectionName} needs the expected version ` +
+        `(${field}) in the selector or in the replacement document.`,
+    );
+  }
+
+  const versionedFilter =
+    expectedVersion === undefined
+      ? filter
+      : { ...filter, [field]: expectedVersion };
+  const versionedUpdate = replacement
+    ? { ...replacement, [field]: expectedVersion! + 1 }
+    : incrementVersion(update, field);
+  const versionedArgs = [versionedFilter, versionedUpdate, ...args.slice(2)];
+
+  if (expectedVersion === undefined) {
+    return call(versionedArgs);
+  }
+
+  const checkResult = async (result: unknown) => {
+    if (matchedNothing(method, result)) {
+      const conflict = await findConflict(
+        collection,
+        field,
+        filter,
+        expectedVersion,
+      );
+      if (conflict) {
+        throw conflict;
+      }
+    }
+    return result;
+  };
+
+  const callback = versionedArgs[versionedArgs.length - 1];
+  if (typeof callback === 'function') {
+    return call([
+      ...versionedArgs.slice(0, -1),
+      function (this: unknown, error: unknown, result: unknown) {
+        if (error) {
+          return callback.call(this, error);
+        }
+        checkResult(result).then(
+          () => callback.call(this, null, result),
+          (conflict) => callback.call(this, conflict),
+        );
+      },
+    ]);
+  }
+  return Promise.resolve(call(versionedArgs)).then(checkResult);
+}
@@ -2,6 +2,7 @@ import {_} from 'meteor/underscore';
 import {expect} from 'chai';
 import {DDP} from 'meteor/ddp-client';
 import {InsertInvoiceResult} from "../types";
+import './transactions.tests';
 
 const USER_COUNT = 20;
 
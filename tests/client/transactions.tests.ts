@@ -0,0 +1,109 @@
+import {
+  runInTransaction,
+  runInTransactionAsync,
+  isInTransaction,
+} from 'meteor/bhunjadi:mongo-transactions';
+import { expect } from 'chai';
+
+// client only collection
+const Cart = new Mongo.Collection<any>(null);
+
+function getItems() {
+  return Cart.find({}, { sort: { _id: 1 } }).fetch();
+}
+
+describe('Client side transactions', function () {
+  beforeEach(() => {
+    Cart.remove({});
+    Cart.insert({ _id: 'a', quantity: 1 });
+    Cart.insert({ _id: 'b', quantity: 2 });
+  });
+
+  it('restores the collection when fn throws', function () {
+    expect(() =>
+      runInTransaction(() => {
+        Cart.insert({ _id: 'c', quantity: 3 });
+        Cart.update({ _id: 'a' }, { $inc: { quantity: 10 } });
+        Cart.remove({ _id: 'b' });
+        throw new Error('stub failed');
+      }),
+    ).to.throw('stub failed');
+
+    expect(getItems()).to.be.deep.equal([
+      { _id: 'a', quantity: 1 },
+      { _id: 'b', quantity: 2 },
+    ]);
+  });
+
+  it('keeps the writes when fn succeeds', function () {
+    const result = runInTransaction(() => {
+      Cart.update({ _id: 'a' }, { $inc: { quantity: 10 } });
+      return 'done';
+    });
+
+    expect(result).to.be.equal('done');
+    expect(getItems()).to.be.deep.equal([
+      { _id: 'a', quantity: 11 },
+      { _id: 'b', quantity: 2 },
+    ]);
+  });
+
+  it('restores the writes of async fn when it throws', async function () {
+    try {
+      await runInTransactionAsync(async () => {
+        expect(isInTransaction()).to.be.true;
+        Cart.remove({ _id: 'b' });
+        await Promise.resolve();
+        await Cart.insertAsync({ _id: 'c', quantity: 3 });
+        Cart.update({ _id: 'a' }, { $inc: { quantity: 10 } });
+        throw new Error('stub failed');
+      });
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e.message).to.be.equal('stub failed');
+    }
+
+    expect(isInTransaction()).to.be.false;
+    expect(getItems()).to.be.deep.equal([
+      { _id: 'a', quantity: 1 },
+      { _id: 'b', quantity: 2 },
+    ]);
+  });
+
+  it('keeps data written to Minimongo directly while async fn awaits', async function () {
+    try {
+      await runInTransactionAsync(async () => {
+        Cart.remove({ _id: 'b' });
+        await Promise.resolve();
+        // data from the server goes to Minimongo directly
+        (Cart as any)._collection.insert({ _id: 'c', quantity: 3 });
+        (Cart as any)._collection.update(
+          { _id: 'a' },
+          { $set: { quantity: 5 } },
+        );
+        throw new Error('stub failed');
+      });
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e.message).to.be.equal('stub failed');
+    }
+
+    expect(getItems()).to.be.deep.equal([
+      { _id: 'a', quantity: 5 },
+      { _id: 'b', quantity: 2 },
+      { _id: 'c', quantity: 3 },
+    ]);
+  });
+
+  it('tells whether it runs in a transaction', function () {
+    expect(isInTransaction()).to.be.false;
+    runInTransaction(() => {
+      expect(isInTransaction()).to.be.true;
+      // nested call joins
+      runInTransaction(() => {
+        expect(isInTransaction()).to.be.true;
+      });
+    });
+    expect(isInTransaction()).to.be.false;
+  });
+});
@@ -0,0 +1,154 @@
+import {
+  runInTransactionAsync,
+  getChangeSet,
+  onCommit,
+  ChangeSet,
+} from 'meteor/bhunjadi:mongo-transactions';
+import { expect } from 'chai';
+import { Invoice, collectionsCreated } from '../collections';
+
+describe('Transaction change set', function () {
+  before(() => collectionsCreated);
+
+  beforeEach(async () => {
+    await Invoice.removeAsync({});
+    await Invoice.insertAsync({ _id: 'existing', total: 100 });
+    await Invoice.insertAsync({ _id: 'removed', total: 50 });
+  });
+
+  it('captures before and after images', async function () {
+    let committed: ChangeSet | undefined;
+    await runInTransactionAsync(
+      async () => {
+        onCommit((changeSet) => {
+          committed = changeSet;
+        });
+        await Invoice.insertAsync({ _id: 'new', total: 200 });
+        await Invoice.updateAsync(
+          { _id: 'existing' },
+          { $set: { total: 150 } },
+        );
+        await Invoice.removeAsync({ _id: 'removed' });
+      },
+      { changeSet: true },
+    );
+
+    expect(committed).to.be.deep.equal([
+      {
+        collection: 'invoice',
+        method: 'insertOne',
+        documentId: 'new',
+        before: null,
+        after: { _id: 'new', total: 200 },
+      },
+      {
+        collection: 'invoice',
+        method: 'updateOne',
+        documentId: 'existing',
+        before: { _id: 'existing', total: 100 },
+        after: { _id: 'existing', total: 150 },
+      },
+      {
+        collection: 'invoice',
+        method: 'deleteMany',
+        documentId: 'removed',
+        before: { _id: 'removed', total: 50 },
+        after: null,
+      },
+    ]);
+  });
+
+  it('captures all documents of multi updates and upserts', async function () {
+    const changeSet = await runInTransactionAsync(
+      async () => {
+        const raw = Invoice.rawCollection();
+        await raw.updateMany({}, { $inc: { total: 1 } });
+        await raw.updateOne(
+          { _id: 'upserted' as any },
+          { $set: { total: 1 } },
+          { upsert: true },
+        );
+        return getChangeSet();
+      },
+      { changeSet: true },
+    );
+
+    expect(
+      changeSet!.map(({ documentId, before, after }) => [
+        documentId,
+        before?.total,
+        after?.total,
+      ]),
+    ).to.be.deep.equal([
+      ['existing', 100, 101],
+      ['removed', 50, 51],
+      ['upserted', undefined, 1],
+    ]);
+  });
+
+  it('records the document a single document write was applied to', async function () {
+    const changeSet = await runInTransactionAsync(
+      async () => {
+        await Invoice.rawCollection().updateOne(
+          { total: { $gte: 50 } },
+          { $set: { picked: true } },
+        );
+        return getChangeSet();
+      },
+      { changeSet: true },
+    );
+
+    const picked = await Invoice.find({ picked: true }).fetchAsync();
+    expect(picked.length).to.be.equal(1);
+    expect(changeSet!.length).to.be.equal(1);
+    expect(changeSet![0].documentId).to.be.equal(picked[0]._id);
+    expect(changeSet![0].after).to.be.deep.equal(picked[0]);
+  });
+
+  it('skips documents which were not modified', async function () {
+    const changeSet = await runInTransactionAsync(
+      async () => {
+        await Invoice.rawCollection().updateMany({}, { $set: { total: 100 } });
+        return getChangeSet();
+      },
+      { changeSet: true },
+    );
+
+    expect(changeSet!.map(({ documentId }) => documentId)).to.be.deep.equal([
+      'removed',
+    ]);
+  });
+
+  it('drops changes of a failed nested scope', async function () {
+    const changeSet = await runInTransactionAsync(
+      async () => {
+        await Invoice.insertAsync({ _id: 'outer' });
+        try {
+          await runInTransactionAsync(
+            async () => {
+              await Invoice.insertAsync({ _id: 'inner' });
+              throw new Error('inner');
+            },
+            { propagation: 'nested' },
+          );
+        } catch (e) {
+          // outer continues
+        }
+        return getChangeSet();
+      },
+      { changeSet: true },
+    );
+
+    expect(changeSet!.map(({ documentId }) => documentId)).to.be.deep.equal([
+      'outer',
+    ]);
+  });
+
+  it('is not captured without the option', async function () {
+    const changeSet = await runInTransactionAsync(async () => {
+      await Invoice.insertAsync({});
+      return getChangeSet();
+    });
+    expect(changeSet).to.be.undefined;
+  });
+});
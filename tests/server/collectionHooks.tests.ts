@@ -0,0 +1,152 @@
+import {
+  runInTransaction,
+  configureCollectionHooks,
+  configureTopology,
+  ensureNamespaces,
+} from 'meteor/bhunjadi:mongo-transactions';
+import { expect } from 'chai';
+
+// hooks of collection-hooks 1.x are sync, so these tests run only with fibers
+// own collections, hooks can't be removed from the shared ones
+const Order = new Mongo.Collection<any>('hooked_order');
+const OrderLog = new Mongo.Collection<any>('hooked_order_log');
+const OrderAudit = new Mongo.Collection<any>('hooked_order_audit');
+
+const afterCommitCalls: string[] = [];
+
+(Order as any).before.insert(function (userId, doc) {
+  doc.createdAt = new Date();
+  OrderLog.insert({ type: 'before.insert', orderId: doc._id });
+});
+(Order as any).after.insert(function (userId, doc) {
+  OrderLog.insert({ type: 'after.insert', orderId: doc._id });
+});
+(Order as any).after.insert(
+  function (userId, doc) {
+    afterCommitCalls.push(`insert ${doc._id}`);
+    OrderAudit.insert({ type: 'insert', orderId: doc._id });
+  },
+  { transaction: 'afterCommit' },
+);
+(Order as any).before.update(function (userId, doc) {
+  OrderLog.insert({ type: 'before.update', orderId: doc._id });
+});
+(Order as any).after.update(function (userId, doc) {
+  OrderLog.insert({ type: 'after.update', orderId: doc._id });
+});
+(Order as any).before.remove(function (userId, doc) {
+  OrderLog.insert({ type: 'before.remove', orderId: doc._id });
+});
+(Order as any).after.remove(
+  function (userId, doc) {
+    afterCommitCalls.push(`remove ${doc._id}`);
+  },
+  { transaction: 'afterCommit' },
+);
+
+describe('collection-hooks', function () {
+  // namespaces can't be created inside a transaction
+  before(() => ensureNamespaces());
+
+  beforeEach(() => {
+    (Order as any).direct.remove({});
+    OrderLog.remove({});
+    OrderAudit.remove({});
+    afterCommitCalls.length = 0;
+  });
+
+  afterEach(() => {
+    configureCollectionHooks({});
+  });
+
+  function getLogTypes() {
+    return OrderLog.find({}, { sort: { type: 1 } })
+      .fetch()
+      .map(({ type }) => type);
+  }
+
+  it('writes of insert hooks are committed with the transaction', function () {
+    runInTransaction(() => {
+      Order.insert({ _id: 'order' });
+      // deferred until commit
+      expect(afterCommitCalls).to.be.deep.equal([]);
+    });
+
+    expect(getLogTypes()).to.be.deep.equal(['after.insert', 'before.insert']);
+    expect(afterCommitCalls).to.be.deep.equal(['insert order']);
+    expect(OrderAudit.find().count()).to.be.equal(1);
+  });
+
+  it('writes of hooks are rolled back with the transaction', function () {
+    expect(() =>
+      runInTransaction(() => {
+        Order.insert({ _id: 'order' });
+        Order.update({ _id: 'order' }, { $set: { paid: true } });
+        Order.remove({ _id: 'order' });
+        throw new Error('abort');
+      }),
+    ).to.throw('abort');
+
+    expect(Order.find().count()).to.be.equal(0);
+    expect(OrderLog.find().count()).to.be.equal(0);
+    expect(OrderAudit.find().count()).to.be.equal(0);
+    // after commit hooks are dropped
+    expect(afterCommitCalls).to.be.deep.equal([]);
+  });
+
+  it('runs update and remove hooks in the transaction', function () {
+    (Order as any).direct.insert({ _id: 'order' });
+
+    runInTransaction(() => {
+      Order.update({ _id: 'order' }, { $set: { paid: true } });
+      Order.remove({ _id: 'order' });
+      expect(afterCommitCalls).to.be.deep.equal([]);
+    });
+
+    expect(getLogTypes()).to.be.deep.equal([
+      'after.update',
+      'before.remove',
+      'before.update',
+    ]);
+    expect(afterCommitCalls).to.be.deep.equal(['remove order']);
+  });
+
+  it('defers all after hooks with configureCollectionHooks', function () {
+    configureCollectionHooks({ afterHooks: 'afterCommit' });
+    expect(() =>
+      runInTransaction(() => {
+        Order.insert({ _id: 'order' });
+        expect(getLogTypes()).to.be.deep.equal(['before.insert']);
+        throw new Error('abort');
+      }),
+    ).to.throw('abort');
+
+    expect(OrderLog.find().count()).to.be.equal(0);
+  });
+
+  it('runs hooks without a transaction on a standalone server', function () {
+    configureTopology({
+      topology: 'standalone',
+      standalone: 'withoutTransaction',
+    });
+    const originalDebug = Meteor._debug;
+    Meteor._debug = () => {};
+    try {
+      runInTransaction(() => {
+        Order.insert({ _id: 'order' });
+      });
+    } finally {
+      Meteor._debug = originalDebug;
+      configureTopology({ standalone: 'throw', topology: undefined });
+    }
+
+    expect(getLogTypes()).to.be.deep.equal(['after.insert', 'before.insert']);
+    expect(afterCommitCalls).to.be.deep.equal(['insert order']);
+  });
+
+  it('runs hooks as usual outside of transaction', function () {
+    Order.insert({ _id: 'order' });
+    expect(getLogTypes()).to.be.deep.equal(['after.insert', 'before.insert']);
+    expect(afterCommitCalls).to.be.deep.equal(['insert order']);
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  runInTransactionAsync,
+  runInSessionAsync,
+  CursorExpiredError,
+} from 'meteor/bhunjadi:mongo-transactions';
+import { MongoInternals } from 'meteor/mongo';
+import { expect } from 'chai';
+import { Invoice, collectionsCreated } from '../collections';
+
+const isPromiseOnlyDriver =
+  parseInt(MongoInternals.NpmModules.mongodb.version, 10) >= 5;
+
+describe('Transaction cursors', function () {
+  before(() => collectionsCreated);
+
+  beforeEach(async () => {
+    await Invoice.removeAsync({});
+    await Invoice.insertAsync({ total: 100 });
+  });
+
+  it('reads the cursor inside the transaction', async function () {
+    const docs = await runInTransactionAsync(async () => {
+      return Invoice.rawCollection().find({}).toArray();
+    });
+    expect(docs).to.have.length(1);
+  });
+
+  it('rejects find cursor used after commit', async function () {
+    const cursor = await runInTransactionAsync(async () => {
+      return Invoice.rawCollection().find({});
+    });
+
+    try {
+      await cursor.toArray();
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e).to.be.instanceOf(CursorExpiredError);
+      expect(e.collectionName).to.be.equal('invoice');
+      expect(e.method).to.be.equal('find');
+      expect(e.transactionId).to.be.a('number');
+      expect(e.message).to.contain('find on collection invoice');
+      // call site of find
+      expect(e.message).to.contain('cursors.tests');
+    }
+  });
+
+  it('rejects aggregate cursor used after abort', async function () {
+    let cursor: any;
+    try {
+      await runInTransactionAsync(async () => {
+        cursor = Invoice.rawCollection().aggregate([{ $match: {} }]);
+        throw new Error('abort');
+      });
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e.message).to.be.equal('abort');
+    }
+
+    try {
+      await cursor.next();
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e).to.be.instanceOf(CursorExpiredError);
+      expect(e.method).to.be.equal('aggregate');
+    }
+  });
+
+  it('rejects cursor used after runInSession', async function () {
+    const cursor = await runInSessionAsync(async () => {
+      return Invoice.rawCollection().find({});
+    });
+
+    try {
+      await cursor.toArray();
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e).to.be.instanceOf(CursorExpiredError);
+    }
+  });
+
+  // callbacks are accepted only by driver 4
+  (isPromiseOnlyDriver ? it.skip : it)(
+    'passes the error to the callback',
+    async function () {
+      const cursor: any = await runInTransactionAsync(async () => {
+        return Invoice.rawCollection().find({});
+      });
+
+      const errors = await Promise.all([
+        new Promise((resolve) => cursor.toArray((error) => resolve(error))),
+        new Promise((resolve) =>
+          cursor.forEach(
+            () => {},
+            (error) => resolve(error),
+          ),
+        ),
+      ]);
+      errors.forEach((error) =>
+        expect(error).to.be.instanceOf(CursorExpiredError),
+      );
+    },
+  );
+
+  it('does not track cursors outside of transaction', async function () {
+    const cursor = Invoice.rawCollection().find({});
+    expect(await cursor.toArray()).to.have.length(1);
+  });
+});
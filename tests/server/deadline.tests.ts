@@ -0,0 +1,124 @@
+import {
+  runInTransactionAsync,
+  TransactionTimeoutError,
+} from 'meteor/bhunjadi:mongo-transactions';
+import { expect } from 'chai';
+import { Invoice, collectionsCreated } from '../collections';
+import { waitFor } from '../test.utils';
+
+describe('Transaction deadline', function () {
+  before(() => collectionsCreated);
+
+  beforeEach(async () => {
+    await Invoice.removeAsync({});
+  });
+
+  it('rejects operations after the deadline and aborts', async function () {
+    let operationError: unknown;
+    try {
+      await runInTransactionAsync(
+        async () => {
+          await Invoice.insertAsync({ total: 100 });
+          await waitFor(100);
+          try {
+            await Invoice.insertAsync({ total: 200 });
+          } catch (e) {
+            operationError = e;
+          }
+        },
+        { maxDurationMs: 50 },
+      );
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e).to.be.instanceOf(TransactionTimeoutError);
+      expect(e.maxDurationMs).to.be.equal(50);
+      expect(e.transactionId).to.be.a('number');
+    }
+
+    expect(operationError).to.be.instanceOf(TransactionTimeoutError);
+    expect((operationError as Error).message).to.contain(
+      'on collection invoice was rejected',
+    );
+    expect(await Invoice.find().countAsync()).to.be.equal(0);
+  });
+
+  it('aborts when the deadline passes after the last operation', async function () {
+    try {
+      await runInTransactionAsync(
+        async () => {
+          await Invoice.insertAsync({ total: 100 });
+          await waitFor(100);
+        },
+        { maxDurationMs: 50 },
+      );
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e).to.be.instanceOf(TransactionTimeoutError);
+    }
+    expect(await Invoice.find().countAsync()).to.be.equal(0);
+  });
+
+  it('stops a slow operation at the deadline', async function () {
+    await Invoice.insertAsync({ total: 100 });
+
+    let operationError: any;
+    try {
+      await runInTransactionAsync(
+        async () => {
+          try {
+            await Invoice.rawCollection()
+              .find({ $where: 'sleep(200) || true' })
+              .toArray();
+          } catch (e) {
+            operationError = e;
+          }
+        },
+        { maxDurationMs: 50 },
+      );
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e).to.be.instanceOf(TransactionTimeoutError);
+    }
+    // MaxTimeMSExpired
+    expect(operationError.code).to.be.equal(50);
+  });
+
+  it('commits within the deadline', async function () {
+    await runInTransactionAsync(
+      async () => {
+        await Invoice.insertAsync({ total: 100 });
+      },
+      { maxDurationMs: 10000 },
+    );
+    expect(await Invoice.find().countAsync()).to.be.equal(1);
+  });
+
+  it('logs slow transaction with its call site', async function () {
+    const originalDebug = Meteor._debug;
+    const logged: unknown[][] = [];
+    Meteor._debug = (...args: unknown[]) => {
+      logged.push(args);
+    };
+    try {
+      await runInTransactionAsync(
+        async () => {
+          await Invoice.insertAsync({ total: 100 });
+          await waitFor(50);
+        },
+        { slowTransactionMs: 10 },
+      );
+      await runInTransactionAsync(
+        async () => {
+          await Invoice.insertAsync({ total: 100 });
+        },
+        { slowTransactionMs: 10000 },
+      );
+    } finally {
+      Meteor._debug = originalDebug;
+    }
+
+    expect(logged).to.have.length(1);
+    expect(logged[0][0]).to.contain('Slow transaction');
+    expect(logged[0][0]).to.contain('deadline.tests');
+  });
+});
@@ -0,0 +1,81 @@
+import {
+  runInTransactionAsync,
+  isInTransaction,
+} from 'meteor/bhunjadi:mongo-transactions';
+import { expect } from 'chai';
+import { Invoice, collectionsCreated } from '../collections';
+import { waitFor } from '../test.utils';
+
+describe('Deferring work until commit', function () {
+  before(() => collectionsCreated);
+
+  beforeEach(async () => {
+    await Invoice.removeAsync({});
+  });
+
+  it('runs deferred callbacks after commit without the transaction', async function () {
+    const calls: Array<[string, boolean]> = [];
+    await runInTransactionAsync(
+      async () => {
+        await Invoice.insertAsync({});
+        Meteor.defer(() => calls.push(['defer', isInTransaction()]));
+        Meteor.setTimeout(
+          () => calls.push(['setTimeout', isInTransaction()]),
+          10,
+        );
+        await waitFor(50);
+        expect(calls).to.be.deep.equal([]);
+      },
+      { deferUntilCommit: true },
+    );
+
+    await waitFor(50);
+    expect(calls).to.be.deep.equal([
+      ['defer', false],
+      ['setTimeout', false],
+    ]);
+  });
+
+  it('drops deferred callbacks on abort', async function () {
+    const calls: string[] = [];
+    try {
+      await runInTransactionAsync(
+        async () => {
+          Meteor.defer(() => calls.push('defer'));
+          Meteor.setTimeout(() => calls.push('setTimeout'), 0);
+          throw new Error('abort');
+        },
+        { deferUntilCommit: true },
+      );
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e.message).to.be.equal('abort');
+    }
+
+    await waitFor(50);
+    expect(calls).to.be.deep.equal([]);
+  });
+
+  it('clears queued timeout', async function () {
+    const calls: string[] = [];
+    await runInTransactionAsync(
+      async () => {
+        const handle = Meteor.setTimeout(() => calls.push('setTimeout'), 0);
+        Meteor.clearTimeout(handle);
+      },
+      { deferUntilCommit: true },
+    );
+
+    await waitFor(50);
+    expect(calls).to.be.deep.equal([]);
+  });
+
+  it('does not queue callbacks without the option', async function () {
+    const calls: string[] = [];
+    await runInTransactionAsync(async () => {
+      Meteor.defer(() => calls.push('defer'));
+      await waitFor(50);
+      expect(calls).to.be.deep.equal(['defer']);
+    });
+  });
+});
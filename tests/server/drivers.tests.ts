@@ -0,0 +1,100 @@
+import {
+  runInTransactionAsync,
+  ensureNamespaces,
+  ClientMismatchError,
+} from 'meteor/bhunjadi:mongo-transactions';
+import { Mongo, MongoInternals } from 'meteor/mongo';
+import { expect } from 'chai';
+import { Invoice, collectionsCreated } from '../collections';
+
+const otherDriver = new MongoInternals.RemoteCollectionDriver(
+  process.env.MONGO_URL!,
+);
+const OtherInvoice = new Mongo.Collection<any>('other_driver_invoice', {
+  _driver: otherDriver,
+} as any);
+
+describe('Non-default drivers', function () {
+  before(async () => {
+    await collectionsCreated;
+    await ensureNamespaces();
+  });
+
+  beforeEach(async () => {
+    await Invoice.removeAsync({});
+    await OtherInvoice.removeAsync({});
+  });
+
+  it('runs the transaction on the client of the driver', async function () {
+    await runInTransactionAsync(
+      async () => {
+        await OtherInvoice.insertAsync({ _id: 'a' });
+      },
+      { driver: otherDriver },
+    );
+
+    expect(await OtherInvoice.find().countAsync()).to.be.equal(1);
+  });
+
+  it('aborts the transaction on the client of the driver', async function () {
+    try {
+      await runInTransactionAsync(
+        async () => {
+          await OtherInvoice.insertAsync({ _id: 'a' });
+          throw new Error('fail');
+        },
+        { driver: otherDriver },
+      );
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e.message).to.be.equal('fail');
+    }
+
+    expect(await OtherInvoice.find().countAsync()).to.be.equal(0);
+  });
+
+  it('fails fast when the transaction touches another client', async function () {
+    try {
+      await runInTransactionAsync(async () => {
+        await Invoice.insertAsync({});
+        await OtherInvoice.insertAsync({});
+      });
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e).to.be.instanceOf(ClientMismatchError);
+      expect(e.message).to.contain('other_driver_invoice');
+    }
+
+    expect(await Invoice.find().countAsync()).to.be.equal(0);
+    expect(await OtherInvoice.find().countAsync()).to.be.equal(0);
+  });
+
+  it('does not join a transaction of another client', async function () {
+    try {
+      await runInTransactionAsync(async () => {
+        await runInTransactionAsync(async () => {}, {
+          driver: otherDriver,
+          propagation: 'required',
+        });
+      });
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e).to.be.instanceOf(ClientMismatchError);
+    }
+  });
+
+  it('runs independent transaction on another client with requiresNew', async function () {
+    await runInTransactionAsync(async () => {
+      await Invoice.insertAsync({});
+      await runInTransactionAsync(
+        async () => {
+          await OtherInvoice.insertAsync({});
+        },
+        { driver: otherDriver, propagation: 'requiresNew' },
+      );
+    });
+
+    expect(await Invoice.find().countAsync()).to.be.equal(1);
+    expect(await OtherInvoice.find().countAsync()).to.be.equal(1);
+  });
+});
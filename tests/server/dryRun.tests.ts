@@ -0,0 +1,148 @@
+import {
+  dryRunTransactionAsync,
+  onAbort,
+  onCommit,
+  onFinally,
+  onTransactionEvent,
+  runInTransactionAsync,
+  TransactionEvent,
+} from 'meteor/bhunjadi:mongo-transactions';
+import { expect } from 'chai';
+import { Invoice, InvoiceItem, collectionsCreated } from '../collections';
+
+describe('Dry run transaction', function () {
+  before(() => collectionsCreated);
+
+  beforeEach(async () => {
+    await Invoice.removeAsync({});
+    await InvoiceItem.removeAsync({});
+    await Invoice.insertAsync({ _id: 'existing', total: 100 });
+    await Invoice.insertAsync({ _id: 'removed', total: 50 });
+  });
+
+  it('returns the result and changes, nothing is written', async function () {
+    const { result, changes } = await dryRunTransactionAsync(async () => {
+      await Invoice.insertAsync({ total: 200 });
+      await InvoiceItem.insertAsync({ name: 'item' });
+      await Invoice.updateAsync({ _id: 'existing' }, { $set: { total: 150 } });
+      // nothing is modified
+      await Invoice.updateAsync({ _id: 'existing' }, { $set: { total: 150 } });
+      await Invoice.updateAsync(
+        { _id: 'upserted' },
+        { $set: { total: 10 } },
+        { upsert: true },
+      );
+      await Invoice.removeAsync({ _id: 'removed' });
+      return Invoice.find().countAsync();
+    });
+
+    expect(result).to.be.equal(3);
+    expect(changes).to.be.deep.equal({
+      invoice: { inserted: 2, updated: 1, removed: 1 },
+      invoice_item: { inserted: 1, updated: 0, removed: 0 },
+    });
+
+    const invoices = await Invoice.find({}, { sort: { _id: 1 } }).fetchAsync();
+    expect(invoices).to.be.deep.equal([
+      { _id: 'existing', total: 100 },
+      { _id: 'removed', total: 50 },
+    ]);
+    expect(await InvoiceItem.find().countAsync()).to.be.equal(0);
+  });
+
+  it('counts raw collection writes', async function () {
+    const { changes } = await dryRunTransactionAsync(async () => {
+      const raw = Invoice.rawCollection();
+      await raw.insertMany([{ total: 1 }, { total: 2 }]);
+      await raw.updateMany({}, { $inc: { total: 1 } });
+      await raw.findOneAndDelete({ _id: 'removed' as any });
+      await raw.deleteMany({ total: 2 });
+    });
+
+    expect(changes.invoice).to.be.deep.equal({
+      inserted: 2,
+      updated: 4,
+      removed: 2,
+    });
+    expect(await Invoice.find().countAsync()).to.be.equal(2);
+  });
+
+  it('runs finally hooks only', async function () {
+    const called: string[] = [];
+    await dryRunTransactionAsync(async () => {
+      onCommit(() => called.push('commit'));
+      onAbort(() => called.push('abort'));
+      onFinally(() => called.push('finally'));
+      await Invoice.insertAsync({});
+    });
+    expect(called).to.be.deep.equal(['finally']);
+  });
+
+  it('is not reported as an abort', async function () {
+    const events: TransactionEvent[] = [];
+    const stop = onTransactionEvent((event) => events.push(event));
+    try {
+      await dryRunTransactionAsync(async () => {
+        await Invoice.insertAsync({});
+      });
+    } finally {
+      stop();
+    }
+
+    expect(events.map((event) => event.type)).to.be.deep.equal([
+      'start',
+      'end',
+    ]);
+    expect(events.every((event) => event.dryRun)).to.be.equal(true);
+    expect(events[1].outcome).to.be.equal('dryRun');
+  });
+
+  it('does not count writes of rolled back nested scopes', async function () {
+    const { changes } = await dryRunTransactionAsync(async () => {
+      await Invoice.insertAsync({ total: 1 });
+      try {
+        await runInTransactionAsync(
+          async () => {
+            await Invoice.insertAsync({ total: 2 });
+            await InvoiceItem.insertAsync({ name: 'item' });
+            throw new Error('rollback');
+          },
+          { propagation: 'nested' },
+        );
+      } catch (e) {
+        expect(e.message).to.be.equal('rollback');
+      }
+    });
+
+    expect(changes).to.be.deep.equal({
+      invoice: { inserted: 1, updated: 0, removed: 0 },
+    });
+  });
+
+  it('is not retried', async function () {
+    let calls = 0;
+    const { changes } = await dryRunTransactionAsync(
+      async () => {
+        calls += 1;
+        await Invoice.insertAsync({});
+      },
+      { retry: { maxAttempts: 3, isRetryable: () => true } },
+    );
+
+    expect(calls).to.be.equal(1);
+    expect(changes.invoice.inserted).to.be.equal(1);
+  });
+
+  it('rethrows errors of the callback', async function () {
+    try {
+      await dryRunTransactionAsync(async () => {
+        await Invoice.insertAsync({});
+        throw new Error('failed');
+      });
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e.message).to.be.equal('failed');
+    }
+    expect(await Invoice.find().countAsync()).to.be.equal(2);
+  });
+});
@@ -0,0 +1,121 @@
+import {
+  runInTransactionAsync,
+  onTransactionEvent,
+  createTransactionMetrics,
+  TransactionEvent,
+} from 'meteor/bhunjadi:mongo-transactions';
+import { expect } from 'chai';
+import { Invoice, collectionsCreated } from '../collections';
+
+describe('Transaction events', function () {
+  let events: TransactionEvent[];
+  let stop: () => void;
+
+  before(() => collectionsCreated);
+
+  beforeEach(async () => {
+    await Invoice.removeAsync({});
+    events = [];
+    stop = onTransactionEvent((event) => events.push(event));
+  });
+
+  afterEach(() => {
+    stop();
+  });
+
+  it('emits start, commit and end events', async function () {
+    await runInTransactionAsync(async () => {
+      await Invoice.insertAsync({});
+      await Invoice.findOneAsync({});
+    });
+
+    expect(events.map(({ type }) => type)).to.be.eql([
+      'start',
+      'commit',
+      'end',
+    ]);
+    const end = events[2];
+    expect(end.outcome).to.be.equal('committed');
+    expect(end.attempt).to.be.equal(1);
+    expect(end.operationCount).to.be.at.least(2);
+    expect(end.durationMs).to.be.a('number');
+    expect(
+      new Set(events.map(({ transactionId }) => transactionId)).size,
+    ).to.be.equal(1);
+  });
+
+  it('emits abort event with the error', async function () {
+    const error = new Error('fail');
+    try {
+      await runInTransactionAsync(async () => {
+        throw error;
+      });
+    } catch (e) {
+      // expected
+    }
+
+    expect(events.map(({ type }) => type)).to.be.eql(['start', 'abort', 'end']);
+    expect(events[1].error).to.be.equal(error);
+    expect(events[2].outcome).to.be.equal('aborted');
+  });
+
+  it('emits retry events', async function () {
+    let calls = 0;
+    await runInTransactionAsync(
+      async () => {
+        calls += 1;
+        if (calls === 1) {
+          const error = new Error('transient');
+          (error as any).hasErrorLabel = (label: string) =>
+            label === 'TransientTransactionError';
+          throw error;
+        }
+      },
+      { retry: { initialDelayMs: 1 } },
+    );
+
+    const retry = events.find(({ type }) => type === 'retry')!;
+    expect(retry.attempt).to.be.equal(2);
+    expect(retry.phase).to.be.equal('transaction');
+    expect(events[events.length - 1].attempt).to.be.equal(2);
+  });
+
+  it('does not emit events for joined scopes', async function () {
+    await runInTransactionAsync(async () => {
+      await runInTransactionAsync(async () => {}, {
+        propagation: 'required',
+      });
+    });
+
+    expect(events.map(({ type }) => type)).to.be.eql([
+      'start',
+      'commit',
+      'end',
+    ]);
+  });
+
+  it('renders metrics in Prometheus format', async function () {
+    const metrics = createTransactionMetrics({ durationBuckets: [60] });
+    try {
+      await runInTransactionAsync(async () => {
+        await Invoice.insertAsync({});
+      });
+
+      const text = metrics.render();
+      expect(text).to.contain(
+        '# TYPE mongo_transactions_started_total counter',
+      );
+      expect(text).to.contain('mongo_transactions_started_total 1');
+      expect(text).to.contain('mongo_transactions_committed_total 1');
+      expect(text).to.contain('mongo_transactions_aborted_total 0');
+      expect(text).to.contain(
+        'mongo_transactions_duration_seconds_bucket{outcome="committed",le="60"} 1',
+      );
+      expect(text).to.contain(
+        'mongo_transactions_operations_count{outcome="committed"} 1',
+      );
+    } finally {
+      metrics.stop();
+    }
+  });
+});
@@ -0,0 +1,90 @@
+import {
+  runInTransactionAsync,
+  configureGuard,
+  IllegalOperationError,
+} from 'meteor/bhunjadi:mongo-transactions';
+import { expect } from 'chai';
+import { Invoice, collectionsCreated } from '../collections';
+
+describe('Transaction guard', function () {
+  before(() => collectionsCreated);
+
+  beforeEach(async () => {
+    await Invoice.removeAsync({});
+  });
+
+  afterEach(() => {
+    configureGuard({});
+  });
+
+  it('throws descriptive error', async function () {
+    configureGuard({ default: 'throw' });
+    try {
+      await runInTransactionAsync(async () => {
+        await Invoice.rawCollection().estimatedDocumentCount();
+      });
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e).to.be.instanceOf(IllegalOperationError);
+      expect(e.collectionName).to.be.equal('invoice');
+      expect(e.method).to.be.equal('estimatedDocumentCount');
+      expect(e.message).to.contain(
+        'estimatedDocumentCount on collection invoice',
+      );
+    }
+  });
+
+  it('does not guard operations outside of transaction', async function () {
+    configureGuard({ default: 'throw' });
+    expect(await Invoice.rawCollection().estimatedDocumentCount()).to.be.a(
+      'number',
+    );
+  });
+
+  it('runs the operation outside the session', async function () {
+    configureGuard({ operations: { createIndex: 'outside' } });
+    try {
+      await runInTransactionAsync(async () => {
+        await Invoice.insertAsync({});
+        await Invoice.rawCollection().createIndex(
+          { guarded: 1 },
+          { name: 'guarded_1' },
+        );
+        throw new Error('abort');
+      });
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e.message).to.be.equal('abort');
+    }
+
+    // index was created outside of the aborted transaction
+    expect(await Invoice.find().countAsync()).to.be.equal(0);
+    expect(await Invoice.rawCollection().indexExists('guarded_1')).to.be.true;
+    await Invoice.rawCollection().dropIndex('guarded_1');
+  });
+
+  it('guards only aggregations which write', async function () {
+    configureGuard({ default: 'throw' });
+    await runInTransactionAsync(
+      async () => {
+        await Invoice.insertAsync({});
+        const result = await Invoice.rawCollection()
+          .aggregate([{ $match: {} }])
+          .toArray();
+        expect(result.length).to.be.equal(1);
+
+        try {
+          Invoice.rawCollection().aggregate([
+            { $match: {} },
+            { $out: 'invoice_copy' },
+          ]);
+          expect.fail('Should fail');
+        } catch (e) {
+          expect(e).to.be.instanceOf(IllegalOperationError);
+          expect(e.method).to.be.equal('aggregate');
+        }
+      },
+      { propagation: 'requiresNew' },
+    );
+  });
+});
@@ -1,3 +1,27 @@
 import './methods';
-import './server.tests';
 import './server-async.tests';
+import './outbox.tests';
+import './methods.tests';
+import './retry.tests';
+import './events.tests';
+import './journal.tests';
+import './namespaces.tests';
+import './drivers.tests';
+import './guard.tests';
+import './sessions.tests';
+import './signatures.tests';
+import './cursors.tests';
+import './deadline.tests';
+import './dryRun.tests';
+import './changeSet.tests';
+import './defer.tests';
+import './lock.tests';
+import './versioning.tests';
+import './profiles.tests';
+import './topology.tests';
+
+// sync API is available only with fibers (Meteor 2)
+if (!(Meteor as any).isFibersDisabled) {
+    require('./server.tests');
+    require('./collectionHooks.tests');
+}
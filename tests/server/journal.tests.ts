@@ -0,0 +1,177 @@
+import {
+  runInTransactionAsync,
+  getTransactionJournal,
+  onTransactionEvent,
+  TransactionEvent,
+} from 'meteor/bhunjadi:mongo-transactions';
+import { MongoInternals } from 'meteor/mongo';
+import { expect } from 'chai';
+import { Invoice, collectionsCreated } from '../collections';
+
+const isPromiseOnlyDriver =
+  parseInt(MongoInternals.NpmModules.mongodb.version, 10) >= 5;
+
+describe('Operation journal', function () {
+  before(() => collectionsCreated);
+
+  beforeEach(async () => {
+    await Invoice.removeAsync({});
+  });
+
+  it('is not recorded by default', async function () {
+    await runInTransactionAsync(async () => {
+      await Invoice.insertAsync({});
+      expect(getTransactionJournal()).to.be.undefined;
+    });
+    expect(getTransactionJournal()).to.be.undefined;
+  });
+
+  it('records operations of the transaction', async function () {
+    const journal = await runInTransactionAsync(
+      async () => {
+        await Invoice.insertAsync({ _id: 'a', total: 10 });
+        await Invoice.updateAsync({ _id: 'a' }, { $set: { total: 20 } });
+        return getTransactionJournal()!;
+      },
+      { journal: true },
+    );
+
+    const { entries } = journal;
+    const insert = entries.find(({ method }) => method === 'insertOne')!;
+    expect(insert.collection).to.be.equal('invoice');
+    expect(insert.args).to.be.eql([{ _id: 'a', total: 10 }]);
+    expect(insert.attempt).to.be.equal(1);
+    expect(insert.durationMs).to.be.a('number');
+    expect(insert.result).to.have.property('insertedId', 'a');
+
+    const update = entries.find(({ method }) => method === 'updateOne')!;
+    expect(update.args).to.be.eql([{ _id: 'a' }, { $set: { total: 20 } }]);
+  });
+
+  it('records errors', async function () {
+    let journal;
+    try {
+      await runInTransactionAsync(
+        async () => {
+          journal = getTransactionJournal();
+          await Invoice.insertAsync({ _id: 'a' });
+          await Invoice.insertAsync({ _id: 'a' });
+        },
+        { journal: true },
+      );
+      expect.fail('Should fail');
+    } catch (e) {
+      // duplicate key
+    }
+
+    const failed = journal.entries[journal.entries.length - 1];
+    expect(failed.error.code).to.be.equal(11000);
+  });
+
+  it('is passed to commit and abort events', async function () {
+    const events: TransactionEvent[] = [];
+    const stop = onTransactionEvent((event) => events.push(event));
+    try {
+      await runInTransactionAsync(
+        async () => {
+          await Invoice.insertAsync({});
+        },
+        { journal: true },
+      );
+    } finally {
+      stop();
+    }
+
+    const commit = events.find(({ type }) => type === 'commit')!;
+    expect(commit.journal!.entries.length).to.be.at.least(1);
+    expect(commit.journal!.transactionId).to.be.equal(commit.transactionId);
+  });
+
+  it('redacts fields on export', async function () {
+    const journal = await runInTransactionAsync(
+      async () => {
+        await Invoice.insertAsync({
+          _id: 'a',
+          secret: 'x',
+          nested: { secret: 'y' },
+        });
+        await Invoice.updateAsync(
+          { _id: 'a' },
+          { $set: { 'profile.secret': 'z', total: 1 } },
+        );
+        return getTransactionJournal()!;
+      },
+      { journal: { redactFields: ['secret'] } },
+    );
+
+    const exported = JSON.parse(JSON.stringify(journal));
+    expect(exported.transactionId).to.be.equal(journal.transactionId);
+    const [insert, update] = exported.entries.filter(({ method }) =>
+      ['insertOne', 'updateOne'].includes(method),
+    );
+    expect(insert.args).to.be.eql([
+      { _id: 'a', secret: '[REDACTED]', nested: { secret: '[REDACTED]' } },
+    ]);
+    expect(update.args[1]).to.be.eql({
+      $set: { 'profile.secret': '[REDACTED]', total: 1 },
+    });
+    // entries are kept as recorded
+    expect(journal.entries[0].args[0]).to.have.property('secret', 'x');
+  });
+
+  it('redacts only arguments and results', async function () {
+    const journal = await runInTransactionAsync(
+      async () => {
+        await Invoice.insertAsync({ _id: 'a', collection: 'x', result: 'y' });
+        return getTransactionJournal()!;
+      },
+      { journal: { redactFields: ['collection', 'result', 'insertedId'] } },
+    );
+
+    const [insert] = JSON.parse(JSON.stringify(journal)).entries;
+    expect(insert.collection).to.be.equal('invoice');
+    expect(insert.method).to.be.equal('insertOne');
+    expect(insert.args).to.be.eql([
+      { _id: 'a', collection: '[REDACTED]', result: '[REDACTED]' },
+    ]);
+    expect(insert.result).to.have.property('insertedId', '[REDACTED]');
+  });
+
+  // callbacks are accepted only by driver 4
+  (isPromiseOnlyDriver ? it.skip : it)(
+    'records results of callback calls',
+    async function () {
+      const journal = await runInTransactionAsync(
+        async () => {
+          await new Promise((resolve, reject) => {
+            (Invoice.rawCollection() as any).insertOne(
+              { _id: 'a' },
+              (error, result) => (error ? reject(error) : resolve(result)),
+            );
+          });
+          return getTransactionJournal()!;
+        },
+        { journal: true },
+      );
+
+      const [insert] = journal.entries;
+      expect(insert.durationMs).to.be.a('number');
+      expect(insert.result).to.have.property('insertedId', 'a');
+    },
+  );
+
+  it('respects maxEntries', async function () {
+    const journal = await runInTransactionAsync(
+      async () => {
+        await Invoice.insertAsync({});
+        await Invoice.insertAsync({});
+        await Invoice.insertAsync({});
+        return getTransactionJournal()!;
+      },
+      { journal: { maxEntries: 1 } },
+    );
+
+    expect(journal.entries.length).to.be.equal(1);
+    expect(journal.skipped).to.be.at.least(2);
+  });
+});
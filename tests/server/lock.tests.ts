@@ -0,0 +1,93 @@
+import {
+  runInTransactionAsync,
+  lockForUpdateAsync,
+} from 'meteor/bhunjadi:mongo-transactions';
+import { expect } from 'chai';
+import { Invoice, collectionsCreated } from '../collections';
+
+describe('lockForUpdate', function () {
+  before(() => collectionsCreated);
+
+  beforeEach(async () => {
+    await Invoice.removeAsync({});
+  });
+
+  it('returns locked documents unchanged', async function () {
+    await Invoice.insertAsync({ _id: 'a', total: 50 });
+    await Invoice.insertAsync({ _id: 'b', total: 100 });
+
+    const locked = await runInTransactionAsync(() =>
+      lockForUpdateAsync(Invoice, { total: { $gte: 100 } }),
+    );
+
+    expect(locked).to.be.deep.equal([{ _id: 'b', total: 100 }]);
+    expect(await Invoice.findOneAsync('b')).to.be.deep.equal({
+      _id: 'b',
+      total: 100,
+    });
+  });
+
+  it('conflicts with a concurrent transaction right away', async function () {
+    const invoiceId = await Invoice.insertAsync({ total: 50 });
+
+    let lockTaken: () => void = () => {};
+    const locked = new Promise<void>((resolve) => {
+      lockTaken = resolve;
+    });
+    let release: () => void = () => {};
+    const released = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+
+    const first = runInTransactionAsync(async () => {
+      const [invoice] = await lockForUpdateAsync(Invoice, invoiceId);
+      lockTaken();
+      await released;
+      await Invoice.updateAsync(invoiceId, {
+        $set: { total: invoice.total + 50 },
+      });
+    });
+
+    await locked;
+    try {
+      await runInTransactionAsync(() => lockForUpdateAsync(Invoice, invoiceId));
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e.hasErrorLabel('TransientTransactionError')).to.be.true;
+    } finally {
+      release();
+    }
+    await first;
+
+    expect(await Invoice.findOneAsync(invoiceId)).to.be.deep.equal({
+      _id: invoiceId,
+      total: 100,
+    });
+  });
+
+  it('rejects documents which already have the lock field', async function () {
+    await Invoice.insertAsync({ _id: 'a', total: 50, _lock: 'kept' });
+
+    try {
+      await runInTransactionAsync(() => lockForUpdateAsync(Invoice, 'a'));
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e.message).to.contain('already has the lock field _lock');
+    }
+
+    const locked = await runInTransactionAsync(() =>
+      lockForUpdateAsync(Invoice, 'a', { lockField: '_otherLock' }),
+    );
+    expect(locked).to.be.deep.equal([{ _id: 'a', total: 50, _lock: 'kept' }]);
+    expect((await Invoice.findOneAsync('a'))?._lock).to.be.equal('kept');
+  });
+
+  it('throws outside of transaction', async function () {
+    try {
+      await lockForUpdateAsync(Invoice, {});
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e.message).to.contain('inside a transaction');
+    }
+  });
+});
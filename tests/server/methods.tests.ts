@@ -0,0 +1,100 @@
+import {
+  transactionalMethods,
+  isInTransaction,
+  sessionVariable,
+} from 'meteor/bhunjadi:mongo-transactions';
+import { expect } from 'chai';
+import { Invoice, collectionsCreated } from '../collections';
+
+transactionalMethods({
+  async 'transactionalMethods.insert'(fail: boolean) {
+    const { method } = sessionVariable.get()!;
+    await Invoice.insertAsync({ method: method!.name });
+    if (fail) {
+      throw new Error('fail');
+    }
+    return isInTransaction();
+  },
+  async 'transactionalMethods.meteorError'() {
+    throw new Meteor.Error('custom-error', 'Custom error');
+  },
+  async 'transactionalMethods.sanitizedError'() {
+    await Invoice.insertAsync({});
+    const error: any = new Error('Internal details');
+    error.sanitizedError = new Meteor.Error('not-allowed', 'Not allowed');
+    throw error;
+  },
+  'transactionalMethods.optOut': {
+    transaction: false,
+    async run() {
+      return isInTransaction();
+    },
+  },
+  'transactionalMethods.withOptions': {
+    transaction: { retry: true },
+    async run() {
+      await Invoice.insertAsync({});
+      return isInTransaction();
+    },
+  },
+});
+
+describe('transactionalMethods', function () {
+  before(() => collectionsCreated);
+
+  beforeEach(async () => {
+    await Invoice.removeAsync({});
+  });
+
+  it('runs the method inside a transaction', async function () {
+    const result = await Meteor.callAsync('transactionalMethods.insert', false);
+
+    expect(result).to.be.true;
+    const invoices = await Invoice.find().fetchAsync();
+    expect(invoices.map((invoice) => invoice.method)).to.be.eql([
+      'transactionalMethods.insert',
+    ]);
+  });
+
+  it('aborts the transaction and keeps errors not related to it', async function () {
+    try {
+      await Meteor.callAsync('transactionalMethods.insert', true);
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e).not.to.be.instanceOf(Meteor.Error);
+      expect(e.message).to.be.equal('fail');
+    }
+
+    expect(await Invoice.find().countAsync()).to.be.equal(0);
+  });
+
+  it('keeps Meteor.Error as is', async function () {
+    try {
+      await Meteor.callAsync('transactionalMethods.meteorError');
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e.error).to.be.equal('custom-error');
+    }
+  });
+
+  it('keeps errors with sanitizedError as is', async function () {
+    try {
+      await Meteor.callAsync('transactionalMethods.sanitizedError');
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e.message).to.be.equal('Internal details');
+      expect(e.sanitizedError.error).to.be.equal('not-allowed');
+    }
+    expect(await Invoice.find().countAsync()).to.be.equal(0);
+  });
+
+  it('can opt out of the transaction', async function () {
+    expect(await Meteor.callAsync('transactionalMethods.optOut')).to.be.false;
+  });
+
+  it('accepts transaction options', async function () {
+    expect(await Meteor.callAsync('transactionalMethods.withOptions')).to.be
+      .true;
+    expect(await Invoice.find().countAsync()).to.be.equal(1);
+  });
+});
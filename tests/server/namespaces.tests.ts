@@ -0,0 +1,79 @@
+import {
+  runInTransactionAsync,
+  configureNamespaces,
+  declareCollection,
+  ensureNamespaces,
+} from 'meteor/bhunjadi:mongo-transactions';
+import { Mongo } from 'meteor/mongo';
+import { expect } from 'chai';
+
+function createCollection(prefix: string) {
+  return new Mongo.Collection<any>(`${prefix}_${Date.now()}`);
+}
+
+async function collectionExists(collection: Mongo.Collection<any>) {
+  const name = collection.rawCollection().collectionName;
+  const collections = await collection
+    .rawDatabase()
+    .listCollections({ name })
+    .toArray();
+  return collections.length === 1;
+}
+
+describe('Namespace creation', function () {
+  const collections: Mongo.Collection<any>[] = [];
+
+  afterEach(async () => {
+    configureNamespaces({ mode: 'off' });
+    await Promise.all(
+      collections.splice(0).map((collection) =>
+        collection
+          .rawDatabase()
+          .dropCollection(collection.rawCollection().collectionName)
+          .catch(() => {}),
+      ),
+    );
+  });
+
+  it('creates tracked collections', async function () {
+    const collection = createCollection('namespaces_ensure');
+    collections.push(collection);
+
+    expect(await collectionExists(collection)).to.be.false;
+    await ensureNamespaces();
+    expect(await collectionExists(collection)).to.be.true;
+
+    await runInTransactionAsync(async () => {
+      await collection.insertAsync({ _id: 'a' });
+    });
+    expect(await collection.find().countAsync()).to.be.equal(1);
+  });
+
+  it('creates collection before the first write in lazy mode', async function () {
+    configureNamespaces({ mode: 'lazy' });
+    const collection = createCollection('namespaces_lazy');
+    collections.push(collection);
+
+    await runInTransactionAsync(async () => {
+      await collection.insertAsync({ _id: 'a' });
+      await collection.updateAsync({ _id: 'a' }, { $set: { updated: true } });
+    });
+
+    expect(await collection.findOneAsync('a')).to.be.eql({
+      _id: 'a',
+      updated: true,
+    });
+  });
+
+  it('creates declared indexes', async function () {
+    const collection = createCollection('namespaces_indexes');
+    collections.push(collection);
+    declareCollection(collection, {
+      indexes: [{ key: { code: 1 }, name: 'code_1', unique: true }],
+    });
+
+    await ensureNamespaces();
+
+    expect(await collection.rawCollection().indexExists('code_1')).to.be.true;
+  });
+});
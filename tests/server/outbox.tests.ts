@@ -0,0 +1,149 @@
+import {
+  runInTransactionAsync,
+  runInSessionAsync,
+  configureOutbox,
+  enqueueEventAsync,
+  registerEventHandler,
+  startOutboxDispatcher,
+  OutboxDispatcher,
+} from 'meteor/bhunjadi:mongo-transactions';
+import { MongoInternals } from 'meteor/mongo';
+import { expect } from 'chai';
+import { Invoice, collectionsCreated } from '../collections';
+import { waitFor } from '../test.utils';
+
+const OUTBOX_COLLECTION = 'transactions_outbox_test';
+
+function getOutbox() {
+  return MongoInternals.defaultRemoteCollectionDriver().mongo.db.collection(
+    OUTBOX_COLLECTION,
+  );
+}
+
+describe('Transactional outbox', function () {
+  let dispatcher: OutboxDispatcher | undefined;
+  const unregister: Array<() => void> = [];
+
+  before(async () => {
+    await collectionsCreated;
+    configureOutbox({ collectionName: OUTBOX_COLLECTION });
+  });
+
+  beforeEach(async () => {
+    await Invoice.removeAsync({});
+    await getOutbox().deleteMany({});
+  });
+
+  afterEach(() => {
+    dispatcher?.stop();
+    dispatcher = undefined;
+    unregister.splice(0).forEach((fn) => fn());
+  });
+
+  it('commits event together with the transaction', async function () {
+    await runInTransactionAsync(async () => {
+      await Invoice.insertAsync({});
+      await enqueueEventAsync('invoiceCreated', { total: 100 });
+    });
+
+    const events = await getOutbox().find().toArray();
+    expect(events.length).to.be.equal(1);
+    expect(events[0].type).to.be.equal('invoiceCreated');
+    expect(events[0].payload).to.be.eql({ total: 100 });
+    expect(events[0].status).to.be.equal('pending');
+  });
+
+  it('rolls back event together with the transaction', async function () {
+    try {
+      await runInTransactionAsync(async () => {
+        await enqueueEventAsync('invoiceCreated', { total: 100 });
+        throw new Error('fail');
+      });
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e.message).to.be.equal('fail');
+    }
+
+    expect(await getOutbox().countDocuments()).to.be.equal(0);
+  });
+
+  it('delivers committed events to handlers and marks them done', async function () {
+    const delivered: unknown[] = [];
+    unregister.push(
+      registerEventHandler('invoiceCreated', ({ payload }) => {
+        delivered.push(payload);
+      }),
+    );
+    dispatcher = startOutboxDispatcher({ pollIntervalMs: 50 });
+
+    await runInTransactionAsync(async () => {
+      await enqueueEventAsync('invoiceCreated', { total: 100 });
+    });
+    await waitFor(300);
+
+    expect(delivered).to.be.eql([{ total: 100 }]);
+    const [event] = await getOutbox().find().toArray();
+    expect(event.status).to.be.equal('done');
+    expect(event.attempts).to.be.equal(1);
+  });
+
+  it('keeps dispatching after being woken up inside runInSession', async function () {
+    const delivered: unknown[] = [];
+    unregister.push(
+      registerEventHandler('invoiceCreated', ({ payload }) => {
+        delivered.push(payload);
+      }),
+    );
+    dispatcher = startOutboxDispatcher({ pollIntervalMs: 50 });
+    await waitFor(100);
+
+    // session has ended by the time the dispatcher polls
+    await runInSessionAsync(async () => {
+      await enqueueEventAsync('invoiceCreated', { total: 100 });
+    });
+    await waitFor(300);
+    await enqueueEventAsync('invoiceCreated', { total: 200 });
+    await waitFor(300);
+
+    expect(delivered).to.be.eql([{ total: 100 }, { total: 200 }]);
+    const events = await getOutbox().find({ status: 'done' }).toArray();
+    expect(events.length).to.be.equal(2);
+  });
+
+  it('redelivers event when handler fails', async function () {
+    let calls = 0;
+    unregister.push(
+      registerEventHandler('invoiceCreated', () => {
+        calls += 1;
+        if (calls === 1) {
+          throw new Error('handler error');
+        }
+      }),
+    );
+    dispatcher = startOutboxDispatcher({ pollIntervalMs: 50 });
+
+    await enqueueEventAsync('invoiceCreated', {});
+    await waitFor(300);
+
+    expect(calls).to.be.equal(2);
+    const [event] = await getOutbox().find().toArray();
+    expect(event.status).to.be.equal('done');
+    expect(event.lastError).to.be.equal('handler error');
+  });
+
+  it('marks event as failed after maxAttempts', async function () {
+    unregister.push(
+      registerEventHandler('invoiceCreated', () => {
+        throw new Error('handler error');
+      }),
+    );
+    dispatcher = startOutboxDispatcher({ pollIntervalMs: 20, maxAttempts: 2 });
+
+    await enqueueEventAsync('invoiceCreated', {});
+    await waitFor(300);
+
+    const [event] = await getOutbox().find().toArray();
+    expect(event.status).to.be.equal('failed');
+    expect(event.attempts).to.be.equal(2);
+  });
+});
@@ -0,0 +1,168 @@
+import {
+  defineTransactionProfile,
+  getDefaultOptions,
+  getTransactionProfile,
+  getTransactionJournal,
+  runInTransactionAsync,
+  setDefaultOptions,
+  TransactionTimeoutError,
+} from 'meteor/bhunjadi:mongo-transactions';
+import { expect } from 'chai';
+import { Invoice, collectionsCreated } from '../collections';
+import { waitFor } from '../test.utils';
+
+describe('Transaction profiles', function () {
+  let defaults: ReturnType<typeof getDefaultOptions>;
+
+  before(() => collectionsCreated);
+
+  beforeEach(async () => {
+    defaults = getDefaultOptions();
+    await Invoice.removeAsync({});
+  });
+
+  afterEach(() => {
+    setDefaultOptions(defaults);
+  });
+
+  it('runs the transaction with the options of the profile', async function () {
+    defineTransactionProfile('journaled', { journal: true });
+
+    await runInTransactionAsync(async () => {
+      await Invoice.insertAsync({ total: 100 });
+      expect(getTransactionJournal()?.entries).to.have.length(1);
+    }, 'journaled');
+
+    expect(await Invoice.find().countAsync()).to.be.equal(1);
+  });
+
+  it('merges the profile on top of the default options', function () {
+    setDefaultOptions({
+      transactionOptions: { readConcern: { level: 'snapshot' } },
+      retry: { maxAttempts: 3, initialDelayMs: 5 },
+      maxDurationMs: 10000,
+    });
+    defineTransactionProfile('billing', {
+      transactionOptions: { writeConcern: { w: 'majority' } },
+      retry: { maxAttempts: 10 },
+      slowTransactionMs: 2000,
+    });
+
+    const options = getTransactionProfile('billing');
+    expect(options.transactionOptions).to.be.deep.equal({
+      readConcern: { level: 'snapshot' },
+      writeConcern: { w: 'majority' },
+    });
+    expect(options.retry).to.be.deep.equal({
+      maxAttempts: 10,
+      initialDelayMs: 5,
+    });
+    expect(options.maxDurationMs).to.be.equal(10000);
+    expect(options.slowTransactionMs).to.be.equal(2000);
+  });
+
+  it('replaces non object values of the defaults', function () {
+    setDefaultOptions({ retry: { maxAttempts: 3 } });
+    defineTransactionProfile('noRetry', { retry: false });
+
+    expect(getTransactionProfile('noRetry').retry).to.be.equal(false);
+  });
+
+  it('uses the defaults set after the profile was defined', async function () {
+    defineTransactionProfile('deadline', {});
+    setDefaultOptions({ maxDurationMs: 50 });
+
+    try {
+      await runInTransactionAsync(async () => {
+        await Invoice.insertAsync({ total: 100 });
+        await waitFor(100);
+      }, 'deadline');
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e).to.be.instanceOf(TransactionTimeoutError);
+    }
+    expect(await Invoice.find().countAsync()).to.be.equal(0);
+  });
+
+  it('rejects catchCallbackErrors without waitForCallbacks', function () {
+    expect(() =>
+      defineTransactionProfile('callbacks', { catchCallbackErrors: true }),
+    ).to.throw('catchCallbackErrors requires waitForCallbacks');
+
+    setDefaultOptions({ waitForCallbacks: true });
+    defineTransactionProfile('callbacks', { catchCallbackErrors: true });
+    expect(getTransactionProfile('callbacks').waitForCallbacks).to.be.equal(
+      true,
+    );
+  });
+
+  it('rejects invalid durations and propagation', function () {
+    expect(() =>
+      defineTransactionProfile('invalid', { maxDurationMs: 0 }),
+    ).to.throw('maxDurationMs must be a positive number');
+    expect(() =>
+      defineTransactionProfile('invalid', {
+        maxDurationMs: 1000,
+        slowTransactionMs: 1000,
+      }),
+    ).to.throw('slowTransactionMs must be lower than maxDurationMs');
+    expect(() =>
+      defineTransactionProfile('invalid', { propagation: 'never' as any }),
+    ).to.throw("unknown propagation 'never'");
+  });
+
+  it('rejects when the merged options became incompatible', async function () {
+    setDefaultOptions({ waitForCallbacks: true });
+    defineTransactionProfile('incompatible', { catchCallbackErrors: true });
+    setDefaultOptions({});
+
+    let called = false;
+    try {
+      await runInTransactionAsync(async () => {
+        called = true;
+      }, 'incompatible');
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e.message).to.contain(
+        'catchCallbackErrors requires waitForCallbacks',
+      );
+    }
+    expect(called).to.be.equal(false);
+  });
+
+  it('validates options passed as an object', async function () {
+    let called = false;
+    try {
+      await runInTransactionAsync(
+        async () => {
+          called = true;
+        },
+        { catchCallbackErrors: true },
+      );
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e.message).to.be.equal(
+        'Transaction options: catchCallbackErrors requires waitForCallbacks.',
+      );
+    }
+    expect(called).to.be.equal(false);
+  });
+
+  it('rejects invalid default options', function () {
+    expect(() => setDefaultOptions({ catchCallbackErrors: true })).to.throw(
+      'Default transaction options: catchCallbackErrors requires waitForCallbacks.',
+    );
+    expect(getDefaultOptions()).to.be.equal(defaults);
+  });
+
+  it('rejects profiles which are not defined', async function () {
+    try {
+      await runInTransactionAsync(async () => {}, 'missing');
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e.message).to.be.equal(
+        "Transaction profile 'missing' is not defined.",
+      );
+    }
+  });
+});
@@ -0,0 +1,133 @@
+import {
+  runInTransactionAsync,
+  onCommit,
+  onAbort,
+  RetryInfo,
+} from 'meteor/bhunjadi:mongo-transactions';
+import { expect } from 'chai';
+import { Invoice, collectionsCreated } from '../collections';
+
+function createLabeledError(message: string, label: string) {
+  const error = new Error(message);
+  (error as any).hasErrorLabel = (l: string) => l === label;
+  return error;
+}
+
+describe('Retry policy', function () {
+  before(() => collectionsCreated);
+
+  beforeEach(async () => {
+    await Invoice.removeAsync({});
+  });
+
+  it('retries the transaction on transient error', async function () {
+    let calls = 0;
+    const retries: RetryInfo[] = [];
+    const commits: number[] = [];
+
+    const result = await runInTransactionAsync(
+      async () => {
+        calls += 1;
+        const attempt = calls;
+        onCommit(() => commits.push(attempt));
+        await Invoice.insertAsync({ attempt });
+        if (calls < 3) {
+          throw createLabeledError('transient', 'TransientTransactionError');
+        }
+        return calls;
+      },
+      {
+        retry: {
+          initialDelayMs: 1,
+          onRetry: (info) => retries.push(info),
+        },
+      },
+    );
+
+    expect(result).to.be.equal(3);
+    expect(retries.map(({ attempt, phase }) => ({ attempt, phase }))).to.be.eql(
+      [
+        { attempt: 2, phase: 'transaction' },
+        { attempt: 3, phase: 'transaction' },
+      ],
+    );
+    // hooks of failed attempts are discarded
+    expect(commits).to.be.eql([3]);
+    const invoices = await Invoice.find().fetchAsync();
+    expect(invoices.map(({ attempt }) => attempt)).to.be.eql([3]);
+  });
+
+  it('does not retry errors which are not retryable', async function () {
+    let calls = 0;
+    try {
+      await runInTransactionAsync(
+        async () => {
+          calls += 1;
+          throw new Error('fail');
+        },
+        { retry: { initialDelayMs: 1 } },
+      );
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e.message).to.be.equal('fail');
+    }
+    expect(calls).to.be.equal(1);
+  });
+
+  it('gives up after maxAttempts', async function () {
+    let calls = 0;
+    const aborts: unknown[] = [];
+    try {
+      await runInTransactionAsync(
+        async () => {
+          calls += 1;
+          onAbort((error) => aborts.push(error));
+          throw createLabeledError('transient', 'TransientTransactionError');
+        },
+        { retry: { initialDelayMs: 1, maxAttempts: 2 } },
+      );
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e.message).to.be.equal('transient');
+    }
+    expect(calls).to.be.equal(2);
+    expect(aborts.length).to.be.equal(1);
+  });
+
+  it('uses custom predicate', async function () {
+    let calls = 0;
+    await runInTransactionAsync(
+      async () => {
+        calls += 1;
+        if (calls === 1) {
+          throw new Error('custom');
+        }
+      },
+      {
+        retry: {
+          initialDelayMs: 1,
+          isRetryable: (error: any, phase) =>
+            phase === 'transaction' && error.message === 'custom',
+        },
+      },
+    );
+    expect(calls).to.be.equal(2);
+  });
+
+  it('does not run the callback again in commitOnly mode', async function () {
+    let calls = 0;
+    try {
+      await runInTransactionAsync(
+        async () => {
+          calls += 1;
+          throw createLabeledError('transient', 'TransientTransactionError');
+        },
+        { retry: { initialDelayMs: 1, commitOnly: true } },
+      );
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e.message).to.be.equal('transient');
+    }
+    expect(calls).to.be.equal(1);
+  });
+});
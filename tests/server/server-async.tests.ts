@@ -1,11 +1,21 @@
 import {
   runInTransactionAsync as _runInTransactionAsync,
   isInTransaction,
+  RollbackOnlyError,
+  onCommit,
+  onAbort,
+  onFinally,
+  runOutsideTransactionAsync,
 } from 'meteor/bhunjadi:mongo-transactions';
 import { expect } from 'chai';
 // import EventEmitter from 'events';
 import EventEmitter from 'eventemitter2';
-import { Invoice, InvoiceItem, InvoiceLog } from '../collections';
+import {
+  Invoice,
+  InvoiceItem,
+  InvoiceLog,
+  collectionsCreated,
+} from '../collections';
 import { waitFor } from '../test.utils';
 
 [true, false].forEach((retry) => {
@@ -21,6 +31,8 @@ import { waitFor } from '../test.utils';
   }
 
   describe(`[ASYNC] Server side testing. Transactions${retry ? ' with retry' : ' without retry'}`, function () {
+    before(() => collectionsCreated);
+
     beforeEach(async () => {
       await Invoice.removeAsync({});
       await InvoiceItem.removeAsync({});
@@ -51,8 +63,8 @@ import { waitFor } from '../test.utils';
 
         expect(result).to.be.equal(expectedId);
 
-        const invoices = Invoice.find().fetch();
-        const items = InvoiceItem.find().fetch();
+        const invoices = await Invoice.find().fetchAsync();
+        const items = await InvoiceItem.find().fetchAsync();
         expect(invoices).to.be.eql([
           {
             _id: expectedId,
@@ -147,8 +159,8 @@ import { waitFor } from '../test.utils';
           expect(e.message).to.equal('update error');
         }
 
-        const invoices = Invoice.find().fetch();
-        const items = InvoiceItem.find().fetch();
+        const invoices = await Invoice.find().fetchAsync();
+        const items = await InvoiceItem.find().fetchAsync();
         expect(invoices).to.be.eql([
           {
             _id: invoiceId,
@@ -406,6 +418,142 @@ import { waitFor } from '../test.utils';
           expect(e.message).to.match(/Nested transactions are not supported/);
         }
       });
+
+      it('joins the running transaction with required propagation', async function () {
+        await runInTransaction(async (outerSession) => {
+          await runInTransaction(
+            async (session) => {
+              expect(session).to.be.equal(outerSession);
+              await Invoice.insertAsync({});
+            },
+            { propagation: 'required' },
+          );
+        });
+
+        expect(await Invoice.find().countAsync()).to.be.equal(1);
+      });
+
+      it('aborts the whole transaction when joined scope fails', async function () {
+        try {
+          await runInTransaction(async () => {
+            await Invoice.insertAsync({});
+            try {
+              await runInTransaction(
+                async () => {
+                  throw new Error('inner error');
+                },
+                { propagation: 'required' },
+              );
+            } catch (e) {
+              // ignored, transaction is already rollback-only
+            }
+          });
+          expect.fail('Should fail with rollback-only error');
+        } catch (e) {
+          expect(e).to.be.instanceOf(RollbackOnlyError);
+        }
+
+        expect(await Invoice.find().countAsync()).to.be.equal(0);
+      });
+
+      it('rolls back only writes of the failed nested scope', async function () {
+        await runInTransaction(async () => {
+          await Invoice.insertAsync({ outer: true });
+
+          try {
+            await runInTransaction(
+              async () => {
+                await Invoice.insertAsync({ outer: false });
+                throw new Error('nested error');
+              },
+              { propagation: 'nested' },
+            );
+            expect.fail('Should fail');
+          } catch (e) {
+            expect(e.message).to.be.equal('nested error');
+          }
+        });
+
+        const invoices = await Invoice.find().fetchAsync();
+        expect(invoices.length).to.be.equal(1);
+        expect(invoices[0].outer).to.be.true;
+      });
+    });
+
+    describe('hooks', function () {
+      it('awaits async commit hooks after commit', async function () {
+        const calls: string[] = [];
+        await runInTransaction(async () => {
+          onCommit(async () => {
+            await waitFor(10);
+            calls.push('commit');
+          });
+          onFinally(() => calls.push('finally'));
+          await Invoice.insertAsync({});
+        });
+
+        expect(calls).to.be.eql(['commit', 'finally']);
+      });
+
+      it('runs abort hooks on error', async function () {
+        const calls: string[] = [];
+        try {
+          await runInTransaction(async () => {
+            onCommit(() => calls.push('commit'));
+            onAbort(() => calls.push('abort'));
+            await Invoice.insertAsync({});
+            throw new Error('fail');
+          });
+          expect.fail('Should fail');
+        } catch (e) {
+          expect(e.message).to.be.equal('fail');
+        }
+
+        expect(calls).to.be.eql(['abort']);
+      });
+    });
+
+    describe('runOutsideTransactionAsync', function () {
+      it('persists writes when the transaction aborts', async function () {
+        try {
+          await runInTransaction(async () => {
+            await Invoice.insertAsync({});
+            await runOutsideTransactionAsync(async () => {
+              expect(isInTransaction()).to.be.false;
+              await InvoiceItem.insertAsync({ audit: true });
+              expect(isInTransaction()).to.be.false;
+            });
+            expect(isInTransaction()).to.be.true;
+            throw new Error('fail');
+          });
+          expect.fail('Should fail');
+        } catch (e) {
+          expect(e.message).to.be.equal('fail');
+        }
+
+        expect(await Invoice.find().countAsync()).to.be.equal(0);
+        expect(
+          await InvoiceItem.find({ audit: true }).countAsync(),
+        ).to.be.equal(1);
+      });
+
+      it('starts an independent transaction inside', async function () {
+        try {
+          await runInTransaction(async () => {
+            await runOutsideTransactionAsync(() =>
+              runInTransaction(async () => {
+                await InvoiceItem.insertAsync({});
+              }),
+            );
+            throw new Error('fail');
+          });
+          expect.fail('Should fail');
+        } catch (e) {
+          expect(e.message).to.be.equal('fail');
+        }
+
+        expect(await InvoiceItem.find().countAsync()).to.be.equal(1);
+      });
     });
 
     describe('isInTransaction', function () {
@@ -1,10 +1,21 @@
 import {
   runInTransaction as _runInTransaction,
   isInTransaction,
+  sessionVariable,
+  RollbackOnlyError,
+  onCommit,
+  onAbort,
+  onFinally,
+  runOutsideTransaction,
 } from 'meteor/bhunjadi:mongo-transactions';
 import { expect } from 'chai';
 import EventEmitter from 'events';
-import { Invoice, InvoiceItem, InvoiceLog } from '../collections';
+import {
+  Invoice,
+  InvoiceItem,
+  InvoiceLog,
+  collectionsCreated,
+} from '../collections';
 
 [true, false].forEach((retry) => {
   const runInTransactionOptions = {
@@ -19,6 +30,8 @@ import { Invoice, InvoiceItem, InvoiceLog } from '../collections';
   }
 
   describe(`Server side testing. Transactions${retry ? ' with retry' : ' without retry'}`, function () {
+    before(() => collectionsCreated);
+
     beforeEach(() => {
       Invoice.remove({});
       InvoiceItem.remove({});
@@ -400,6 +413,215 @@ import { Invoice, InvoiceItem, InvoiceLog } from '../collections';
           });
         }).to.throw(/Nested transactions are not supported/);
       });
+
+      it('joins the running transaction with required propagation', function () {
+        runInTransaction(() => {
+          const outerSession = sessionVariable.get()!.session;
+          runInTransaction(
+            (session) => {
+              expect(session).to.be.equal(outerSession);
+              Invoice.insert({});
+            },
+            { propagation: 'required' },
+          );
+        });
+
+        expect(Invoice.find().count()).to.be.equal(1);
+      });
+
+      it('aborts the whole transaction when joined scope fails', function () {
+        expect(() => {
+          runInTransaction(() => {
+            Invoice.insert({});
+            try {
+              runInTransaction(
+                () => {
+                  InvoiceItem.insert({});
+                  throw new Error('inner error');
+                },
+                { propagation: 'required' },
+              );
+            } catch (e) {
+              // ignored, transaction is already rollback-only
+            }
+          });
+        }).to.throw(RollbackOnlyError);
+
+        expect(Invoice.find().count()).to.be.equal(0);
+        expect(InvoiceItem.find().count()).to.be.equal(0);
+      });
+
+      it('commits requiresNew transaction independently', function () {
+        expect(() => {
+          runInTransaction(() => {
+            Invoice.insert({});
+            runInTransaction(
+              (session) => {
+                expect(session).not.to.be.equal(sessionVariable.get()!.session);
+                InvoiceLog.insert({ independent: true });
+              },
+              { propagation: 'requiresNew' },
+            );
+            throw new Error('outer error');
+          });
+        }).to.throw(/outer error/);
+
+        expect(Invoice.find().count()).to.be.equal(0);
+        expect(InvoiceLog.find({ independent: true }).count()).to.be.equal(1);
+        InvoiceLog.remove({});
+      });
+
+      it('rolls back only writes of the failed nested scope', function () {
+        const invoiceId = Invoice.insert({ total: 100 });
+
+        runInTransaction(() => {
+          Invoice.update(invoiceId, { $set: { total: 150 } });
+
+          expect(() => {
+            runInTransaction(
+              () => {
+                Invoice.update(invoiceId, { $set: { total: 200 } });
+                InvoiceItem.insert({ invoiceId });
+                Invoice.remove({ _id: invoiceId });
+                throw new Error('nested error');
+              },
+              { propagation: 'nested' },
+            );
+          }).to.throw(/nested error/);
+
+          InvoiceItem.insert({ invoiceId, kept: true });
+        });
+
+        expect(Invoice.find().fetch()).to.be.eql([
+          { _id: invoiceId, total: 150 },
+        ]);
+        expect(InvoiceItem.find().count()).to.be.equal(1);
+        expect(InvoiceItem.find({ kept: true }).count()).to.be.equal(1);
+      });
+
+      it('keeps writes of the successful nested scope', function () {
+        runInTransaction(() => {
+          runInTransaction(
+            () => {
+              Invoice.insert({});
+            },
+            { propagation: 'nested' },
+          );
+        });
+
+        expect(Invoice.find().count()).to.be.equal(1);
+      });
+    });
+
+    describe('hooks', function () {
+      it('runs commit and finally hooks after commit, in order', function () {
+        const calls: string[] = [];
+        runInTransaction(() => {
+          onFinally(() => calls.push('finally'));
+          onCommit(() => calls.push('commit 1'));
+          onAbort(() => calls.push('abort'));
+          onCommit(() => {
+            expect(isInTransaction()).to.be.false;
+            calls.push('commit 2');
+          });
+          Invoice.insert({});
+          expect(calls).to.be.eql([]);
+        });
+
+        expect(calls).to.be.eql(['commit 1', 'commit 2', 'finally']);
+      });
+
+      it('runs abort hooks with the error', function () {
+        const calls: unknown[] = [];
+        expect(() => {
+          runInTransaction(() => {
+            onCommit(() => calls.push('commit'));
+            onAbort((error) => calls.push((error as Error).message));
+            onFinally(() => calls.push('finally'));
+            throw new Error('fail');
+          });
+        }).to.throw(/fail/);
+
+        expect(calls).to.be.eql(['fail', 'finally']);
+      });
+
+      it('isolates hook errors', function () {
+        const calls: string[] = [];
+        const result = runInTransaction(() => {
+          onCommit(() => {
+            throw new Error('hook error');
+          });
+          onCommit(() => calls.push('commit'));
+          return 'result';
+        });
+
+        expect(result).to.be.equal('result');
+        expect(calls).to.be.eql(['commit']);
+      });
+
+      it('runs abort hooks of the failed nested scope only', function () {
+        const calls: string[] = [];
+        runInTransaction(() => {
+          onCommit(() => calls.push('outer commit'));
+          try {
+            runInTransaction(
+              () => {
+                onCommit(() => calls.push('nested commit'));
+                onAbort(() => calls.push('nested abort'));
+                throw new Error('nested error');
+              },
+              { propagation: 'nested' },
+            );
+          } catch (e) {
+            // ignored
+          }
+          expect(calls).to.be.eql(['nested abort']);
+        });
+
+        expect(calls).to.be.eql(['nested abort', 'outer commit']);
+      });
+
+      it('throws outside of the transaction', function () {
+        expect(() => onCommit(() => {})).to.throw(
+          /can only be called inside a transaction/,
+        );
+      });
+    });
+
+    describe('runOutsideTransaction', function () {
+      it('persists writes when the transaction aborts', function () {
+        expect(() => {
+          runInTransaction(() => {
+            Invoice.insert({});
+            runOutsideTransaction(() => {
+              expect(isInTransaction()).to.be.false;
+              InvoiceItem.insert({ audit: true });
+            });
+            expect(isInTransaction()).to.be.true;
+            throw new Error('fail');
+          });
+        }).to.throw(/fail/);
+
+        expect(Invoice.find().count()).to.be.equal(0);
+        expect(InvoiceItem.find({ audit: true }).count()).to.be.equal(1);
+      });
+
+      it('does not track callbacks', function () {
+        runInTransaction(
+          () => {
+            const context = sessionVariable.get()!;
+            runOutsideTransaction(() => {
+              Invoice.insert({}, () => {});
+            });
+            expect(context.callbackCount).to.be.equal(0);
+          },
+          { waitForCallbacks: true },
+        );
+      });
+
+      it('returns the result of fn', function () {
+        expect(runOutsideTransaction(() => 'result')).to.be.equal('result');
+      });
     });
 
     describe('isInTransaction', function () {
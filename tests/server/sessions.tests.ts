@@ -0,0 +1,86 @@
+import {
+  runInSessionAsync,
+  runInTransactionAsync,
+  isInSession,
+  isInTransaction,
+  onCommit,
+  sessionVariable,
+} from 'meteor/bhunjadi:mongo-transactions';
+import { expect } from 'chai';
+import { Invoice, collectionsCreated } from '../collections';
+
+describe('runInSession', function () {
+  before(() => collectionsCreated);
+
+  beforeEach(async () => {
+    await Invoice.removeAsync({});
+  });
+
+  it('binds causally consistent session without a transaction', async function () {
+    expect(isInSession()).to.be.false;
+
+    await runInSessionAsync(async (session) => {
+      expect(isInSession()).to.be.true;
+      expect(isInTransaction()).to.be.false;
+      expect(session.supports.causalConsistency).to.be.true;
+      expect(sessionVariable.get()!.session).to.be.equal(session);
+
+      await Invoice.insertAsync({ _id: 'a' });
+      // read-your-writes
+      expect(await Invoice.findOneAsync('a')).to.be.eql({ _id: 'a' });
+      expect(session.operationTime).not.to.be.undefined;
+    });
+
+    expect(isInSession()).to.be.false;
+  });
+
+  it('does not roll back writes', async function () {
+    try {
+      await runInSessionAsync(async () => {
+        await Invoice.insertAsync({});
+        throw new Error('fail');
+      });
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e.message).to.be.equal('fail');
+    }
+
+    expect(await Invoice.find().countAsync()).to.be.equal(1);
+  });
+
+  it('accepts session options', async function () {
+    await runInSessionAsync(
+      async (session) => {
+        expect(session.supports.causalConsistency).to.be.false;
+      },
+      { causalConsistency: false },
+    );
+  });
+
+  it('starts a transaction inside the session', async function () {
+    const calls: string[] = [];
+    await runInSessionAsync(async () => {
+      expect(() => onCommit(() => {})).to.throw(
+        /can only be called inside a transaction/,
+      );
+
+      await runInTransactionAsync(async () => {
+        expect(isInTransaction()).to.be.true;
+        onCommit(() => calls.push('commit'));
+        await Invoice.insertAsync({});
+      });
+      expect(isInTransaction()).to.be.false;
+    });
+
+    expect(calls).to.be.eql(['commit']);
+  });
+
+  it('runs inside the transaction', async function () {
+    await runInTransactionAsync(async (transactionSession) => {
+      await runInSessionAsync(async (session) => {
+        expect(session).to.be.equal(transactionSession);
+        expect(isInTransaction()).to.be.true;
+      });
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  runInTransactionAsync,
+  getUnpatchedMethods,
+} from 'meteor/bhunjadi:mongo-transactions';
+import { MongoInternals } from 'meteor/mongo';
+import { expect } from 'chai';
+import { Invoice, collectionsCreated } from '../collections';
+
+const isPromiseOnlyDriver =
+  parseInt(MongoInternals.NpmModules.mongodb.version, 10) >= 5;
+
+describe('Method signatures', function () {
+  before(() => collectionsCreated);
+
+  beforeEach(async () => {
+    await Invoice.removeAsync({});
+  });
+
+  it('patches all session capable methods of the installed driver', function () {
+    expect(getUnpatchedMethods()).to.be.eql([]);
+  });
+
+  it('reports methods which are not patched', function () {
+    const prototype = Object.getPrototypeOf(Invoice.rawCollection());
+    const patched = prototype.isCapped;
+    prototype.isCapped = function (...args) {
+      return patched.apply(this, args);
+    };
+    try {
+      expect(getUnpatchedMethods()).to.be.eql(['isCapped']);
+    } finally {
+      prototype.isCapped = patched;
+    }
+  });
+
+  it('passes the session when optional params are left out', async function () {
+    await runInTransactionAsync(async () => {
+      await Invoice.insertAsync({ code: 'a' });
+
+      const raw = Invoice.rawCollection();
+      // uncommitted insert is visible only with the session
+      expect(await raw.countDocuments()).to.be.equal(1);
+      expect(await raw.find().toArray()).to.have.length(1);
+      expect(await raw.findOne()).to.have.property('code', 'a');
+      expect(await raw.distinct('code')).to.be.eql(['a']);
+      expect(await raw.aggregate().toArray()).to.have.length(1);
+    });
+  });
+
+  (isPromiseOnlyDriver ? it : it.skip)(
+    'rejects callbacks with promise only driver',
+    async function () {
+      await runInTransactionAsync(async () => {
+        expect(() =>
+          (Invoice.rawCollection() as any).countDocuments({}, () => {}),
+        ).to.throw(/does not accept a callback/);
+      });
+    },
+  );
+
+  (isPromiseOnlyDriver ? it.skip : it)(
+    'passes the callback in place of optional params',
+    async function () {
+      await runInTransactionAsync(
+        async () => {
+          await Invoice.insertAsync({});
+          const count = await new Promise((resolve, reject) => {
+            (Invoice.rawCollection() as any).countDocuments((error, result) =>
+              error ? reject(error) : resolve(result),
+            );
+          });
+          expect(count).to.be.equal(1);
+        },
+        { waitForCallbacks: true },
+      );
+    },
+  );
+});
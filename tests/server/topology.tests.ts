@@ -0,0 +1,123 @@
+import {
+  configureTopology,
+  getTopology,
+  isInTransaction,
+  onTransactionEvent,
+  runInTransactionAsync,
+  TransactionEvent,
+  TransactionsNotSupportedError,
+} from 'meteor/bhunjadi:mongo-transactions';
+import { expect } from 'chai';
+import { Invoice, collectionsCreated } from '../collections';
+
+describe('Topology', function () {
+  before(() => collectionsCreated);
+
+  beforeEach(async () => {
+    await Invoice.removeAsync({});
+  });
+
+  afterEach(() => {
+    configureTopology({ standalone: 'throw', topology: undefined });
+  });
+
+  it('detects the replica set the tests run on', async function () {
+    expect(await getTopology()).to.be.equal('replicaSet');
+    // cached for the client
+    expect(getTopology()).to.be.equal(getTopology());
+  });
+
+  it('runs transactions when the server supports them regardless of the standalone mode', async function () {
+    configureTopology({ standalone: 'withoutTransaction' });
+
+    try {
+      await runInTransactionAsync(async () => {
+        expect(isInTransaction()).to.be.equal(true);
+        await Invoice.insertAsync({ total: 100 });
+        throw new Error('abort');
+      });
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e.message).to.be.equal('abort');
+    }
+
+    expect(await Invoice.find().countAsync()).to.be.equal(0);
+  });
+
+  it('throws on a standalone server by default', async function () {
+    configureTopology({ topology: 'standalone' });
+
+    let called = false;
+    try {
+      await runInTransactionAsync(async () => {
+        called = true;
+      });
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e).to.be.instanceOf(TransactionsNotSupportedError);
+    }
+    expect(called).to.be.equal(false);
+  });
+
+  it('runs without a transaction on a standalone server and warns once', async function () {
+    configureTopology({
+      topology: 'standalone',
+      standalone: 'withoutTransaction',
+    });
+
+    const originalDebug = Meteor._debug;
+    const logged: unknown[][] = [];
+    Meteor._debug = (...args: unknown[]) => {
+      logged.push(args);
+    };
+    try {
+      try {
+        await runInTransactionAsync(async () => {
+          expect(isInTransaction()).to.be.equal(false);
+          await Invoice.insertAsync({ total: 100 });
+          throw new Error('abort');
+        });
+        expect.fail('Should fail');
+      } catch (e) {
+        expect(e.message).to.be.equal('abort');
+      }
+      await runInTransactionAsync(async () => {
+        await Invoice.insertAsync({ total: 200 });
+      });
+    } finally {
+      Meteor._debug = originalDebug;
+    }
+
+    // not rolled back
+    expect(await Invoice.find().countAsync()).to.be.equal(2);
+    expect(logged).to.have.length(1);
+    expect(logged[0][0]).to.contain('MongoDB is a standalone server');
+  });
+
+  it('marks events of runs without a transaction', async function () {
+    configureTopology({
+      topology: 'standalone',
+      standalone: 'withoutTransaction',
+    });
+
+    const events: TransactionEvent[] = [];
+    const stop = onTransactionEvent((event) => events.push(event));
+    const originalDebug = Meteor._debug;
+    Meteor._debug = () => {};
+    try {
+      await runInTransactionAsync(async () => {
+        await Invoice.insertAsync({ total: 100 });
+      });
+    } finally {
+      Meteor._debug = originalDebug;
+      stop();
+    }
+
+    expect(events.map(({ type }) => type)).to.be.deep.equal([
+      'start',
+      'commit',
+      'end',
+    ]);
+    expect(events.every((event) => event.withoutTransaction)).to.be.equal(true);
+  });
+});
@@ -0,0 +1,162 @@
+import {
+  runInTransactionAsync,
+  enableVersioning,
+  VersionConflictError,
+} from 'meteor/bhunjadi:mongo-transactions';
+import { expect } from 'chai';
+import { Invoice, collectionsCreated } from '../collections';
+
+// own collection, versions would show up in documents of the shared ones
+const Contract = new Mongo.Collection<any>('versioned_contract');
+enableVersioning(Contract);
+
+describe('Document versions', function () {
+  before(async () => {
+    await collectionsCreated;
+    // namespace can't be created inside a transaction
+    await Contract.insertAsync({});
+  });
+
+  beforeEach(async () => {
+    await Contract.removeAsync({});
+    await Invoice.removeAsync({});
+    await Contract.insertAsync({ _id: 'contract', amount: 100 });
+  });
+
+  it('sets the version on insert and increments it on update', async function () {
+    expect(await Contract.findOneAsync('contract')).to.be.deep.equal({
+      _id: 'contract',
+      amount: 100,
+      _version: 1,
+    });
+
+    await Contract.updateAsync('contract', { $set: { amount: 200 } });
+    await Contract.rawCollection().updateMany({}, [
+      { $set: { amount: { $add: ['$amount', 1] } } },
+    ]);
+
+    expect(await Contract.findOneAsync('contract')).to.be.deep.equal({
+      _id: 'contract',
+      amount: 201,
+      _version: 3,
+    });
+  });
+
+  it('writes with the expected version', async function () {
+    await Contract.updateAsync(
+      { _id: 'contract', _version: 1 },
+      { $set: { amount: 200 } },
+    );
+    expect(await Contract.findOneAsync('contract')).to.be.deep.equal({
+      _id: 'contract',
+      amount: 200,
+      _version: 2,
+    });
+  });
+
+  it('throws on version conflict outside of transaction', async function () {
+    await Contract.updateAsync('contract', { $set: { amount: 200 } });
+
+    try {
+      await Contract.updateAsync(
+        { _id: 'contract', _version: 1 },
+        { $set: { amount: 300 } },
+      );
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e).to.be.instanceOf(VersionConflictError);
+      expect(e.collectionName).to.be.equal('versioned_contract');
+      expect(e.expectedVersion).to.be.equal(1);
+      expect(e.actualVersion).to.be.equal(2);
+    }
+    expect((await Contract.findOneAsync('contract')).amount).to.be.equal(200);
+  });
+
+  it('aborts the transaction on version conflict', async function () {
+    const contract = await Contract.findOneAsync('contract');
+    await Contract.updateAsync('contract', { $set: { amount: 200 } });
+
+    try {
+      await runInTransactionAsync(async () => {
+        await Invoice.insertAsync({ contractId: contract._id });
+        await Contract.updateAsync(
+          { _id: contract._id, _version: contract._version },
+          { $set: { invoiced: true } },
+        );
+      });
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e).to.be.instanceOf(VersionConflictError);
+    }
+    expect(await Invoice.find().countAsync()).to.be.equal(0);
+  });
+
+  it('takes the expected version from the replacement', async function () {
+    const contract = await Contract.findOneAsync('contract');
+    await Contract.rawCollection().replaceOne(
+      { _id: 'contract' },
+      { ...contract, amount: 150 },
+    );
+    expect(await Contract.findOneAsync('contract')).to.be.deep.equal({
+      _id: 'contract',
+      amount: 150,
+      _version: 2,
+    });
+
+    try {
+      // stale copy
+      await Contract.rawCollection().replaceOne(
+        { _id: 'contract' },
+        { ...contract, amount: 300 },
+      );
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e).to.be.instanceOf(VersionConflictError);
+    }
+  });
+
+  it('rejects replacements without the expected version', async function () {
+    try {
+      await Contract.rawCollection().replaceOne(
+        { _id: 'contract' },
+        { amount: 300 },
+      );
+      expect.fail('Should fail');
+    } catch (e) {
+      expect(e.message).to.contain('needs the expected version (_version)');
+    }
+    expect(await Contract.findOneAsync('contract')).to.be.deep.equal({
+      _id: 'contract',
+      amount: 100,
+      _version: 1,
+    });
+  });
+
+  it('reports conflicts only for the document with the _id of the selector', async function () {
+    await Contract.insertAsync({ _id: 'other', amount: 100 });
+    await Contract.updateAsync('other', { $set: { amount: 200 } });
+
+    // document at the expected version, other conditions did not match
+    expect(
+      await Contract.updateAsync(
+        { _id: 'contract', _version: 1, amount: 500 },
+        { $set: { amount: 300 } },
+      ),
+    ).to.be.equal(0);
+    // selector without _id could match any document
+    expect(
+      await Contract.updateAsync(
+        { amount: 200, _version: 1 },
+        { $set: { amount: 300 } },
+      ),
+    ).to.be.equal(0);
+  });
+
+  it('does not throw when the document does not exist', async function () {
+    const updated = await Contract.updateAsync(
+      { _id: 'missing', _version: 1 },
+      { $set: { amount: 300 } },
+    );
+    expect(updated).to.be.equal(0);
+  });
+});